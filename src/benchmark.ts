@@ -0,0 +1,89 @@
+import path from "path";
+import typia from "typia";
+
+import { benchmark, printBenchmark } from "./internal/benchmark";
+import { loadMatrix } from "./internal/loadMatrix";
+import { REPORT_WRITERS } from "./internal/reportWriters";
+import { IExecuteConfig } from "./internal/IExecuteConfig";
+import { IMatrixConfig } from "./internal/IMatrixConfig";
+import { IRunReport } from "./internal/IRunReport";
+import { RUNNER_CHECKS, RUNNERS } from "./internal/runners";
+import { printChains, summarizeChains } from "./internal/summarizeChains";
+import { printCosts, summarizeCosts } from "./internal/summarizeCosts";
+import { createBenchmarkReport, writeReports } from "./internal/writeReports";
+
+const main = async (): Promise<void> => {
+  const matrix: IMatrixConfig | null =
+    process.env.BENCHMARK_MATRIX !== undefined
+      ? await loadMatrix(process.env.BENCHMARK_MATRIX)
+      : null;
+  const names: string[] = (
+    process.env.BENCHMARK_RUNNERS ??
+    matrix?.runners?.join(",") ??
+    "agentica,openai"
+  )
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length !== 0);
+  for (const n of names)
+    if (RUNNERS[n] === undefined) throw new Error(`Unknown runner "${n}".`);
+
+  const result = await benchmark({
+    runners: Object.fromEntries(names.map((n) => [n, RUNNERS[n]])),
+    checks: RUNNER_CHECKS,
+    prompts: process.env.BENCHMARK_PROMPTS?.split(",")
+      .map((s) => s.trim())
+      .filter((s) => s.length !== 0),
+    contexts: toContexts(process.env.BENCHMARK_CONTEXTS),
+    endpoints: matrix?.endpoints,
+    trials: toInteger("BENCHMARK_TRIALS", 10),
+    concurrency: toInteger("BENCHMARK_CONCURRENCY", 1),
+  });
+  printBenchmark(result);
+
+  const report: IRunReport = createBenchmarkReport(result);
+  printChains(summarizeChains(report));
+  printCosts(summarizeCosts(report));
+
+  const locations: string[] = await writeReports({
+    report,
+    formats: Object.keys(REPORT_WRITERS),
+    directory: path.join(__dirname, "..", "results"),
+  });
+  for (const l of locations) console.log(`Report written: ${l}`);
+};
+
+const toContexts = (
+  value: string | undefined
+): Array<IExecuteConfig["context"]> | undefined => {
+  if (value === undefined) return undefined;
+  const contexts: string[] = value
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length !== 0);
+  try {
+    return typia.assert<Array<IExecuteConfig["context"]>>(contexts);
+  } catch (exp) {
+    if (exp instanceof typia.TypeGuardError)
+      throw new Error(
+        `BENCHMARK_CONTEXTS must be ${exp.expected}, but ${JSON.stringify(
+          exp.value
+        )}.`
+      );
+    throw exp;
+  }
+};
+
+const toInteger = (name: string, fallback: number): number => {
+  const value: string | undefined = process.env[name];
+  if (value === undefined) return fallback;
+  const n: number = Number(value);
+  if (value.trim().length === 0 || Number.isInteger(n) === false || n < 1)
+    throw new Error(`${name} must be a positive integer, but "${value}".`);
+  return n;
+};
+
+main().catch((exp) => {
+  console.error(exp);
+  process.exit(-1);
+});
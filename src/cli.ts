@@ -0,0 +1,225 @@
+import path from "path";
+import { parseArgs } from "util";
+
+import { benchmark, printBenchmark } from "./internal/benchmark";
+import { IComponentResult } from "./internal/IComponentResult";
+import { IExecuteConfig } from "./internal/IExecuteConfig";
+import { IMatrixConfig } from "./internal/IMatrixConfig";
+import { IRunReport } from "./internal/IRunReport";
+import { loadMatrix } from "./internal/loadMatrix";
+import { REPORT_WRITERS } from "./internal/reportWriters";
+import { RUNNER_CHECKS, RUNNERS } from "./internal/runners";
+import { printChains, summarizeChains } from "./internal/summarizeChains";
+import { printCosts, summarizeCosts } from "./internal/summarizeCosts";
+import {
+  createBenchmarkReport,
+  createRunReport,
+  writeReports,
+} from "./internal/writeReports";
+
+const USAGE = `Usage: pnpm run cli [options]
+
+Options:
+  --runner <name>        Runner to execute, repeatable (${Object.keys(
+    RUNNERS
+  ).join(", ")})
+  --model <name>         Model to call (default: gpt-4.1)
+  --scenario <name>      Scenario to run, repeatable, or "all" (default:
+                         discussion-board)
+  --scenario-dir <path>  Directory of the scenarios
+  --analyze <path>       Custom requirement analysis report JSON file
+  --components <path>    Custom components JSON file
+  --namespace <name>     Namespace of component to run, repeatable
+  --prompt <name>        System prompt variant, repeatable to compare them
+  --prompt-dir <path>    Directory of the system prompt templates
+  --context <mode>       Requirement analysis context (full, trimmed),
+                         repeatable to compare them
+  --context-budget <number>
+                         Maximum tokens of the trimmed context (default: 2000)
+  --trials <number>      Number of trials per runner (default: 1)
+  --concurrency <number> Number of trials running at the same time (default: 1)
+  --component-concurrency <number>
+                         Number of components running at the same time
+  --retries <number>     Maximum retries per API call, for rate limits
+  --attempts <number>    Maximum attempts per component, for correction mode
+  --base-url <url>       Base URL of the OpenAI compatible API
+  --matrix <path>        JSON file of the runner x model x endpoint matrix
+  --cassette <mode>      Record or replay the LLM traffic (record, replay)
+  --trace                Write the event trace of each component
+  --prices <path>        JSON file overriding the price table per model
+  --lint <path>          JSON file adjusting the severity per lint rule
+  --format <format>      Console output format (text, json)
+  --report <format>      Report file to write, repeatable (${Object.keys(
+    REPORT_WRITERS
+  ).join(", ")})
+  --output <directory>   Directory of the report files (default: results)
+  --help                 Show this message
+`;
+
+const main = async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      runner: { type: "string", multiple: true },
+      model: { type: "string" },
+      scenario: { type: "string", multiple: true },
+      "scenario-dir": { type: "string" },
+      analyze: { type: "string" },
+      components: { type: "string" },
+      namespace: { type: "string", multiple: true },
+      prompt: { type: "string", multiple: true },
+      "prompt-dir": { type: "string" },
+      context: { type: "string", multiple: true },
+      "context-budget": { type: "string" },
+      trials: { type: "string" },
+      concurrency: { type: "string" },
+      "component-concurrency": { type: "string" },
+      retries: { type: "string" },
+      attempts: { type: "string" },
+      "base-url": { type: "string" },
+      matrix: { type: "string" },
+      cassette: { type: "string" },
+      trace: { type: "boolean" },
+      prices: { type: "string" },
+      lint: { type: "string" },
+      format: { type: "string" },
+      report: { type: "string", multiple: true },
+      output: { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+  if (values.help) return console.log(USAGE);
+
+  const matrix: IMatrixConfig | null =
+    values.matrix !== undefined ? await loadMatrix(values.matrix) : null;
+  const runners: string[] =
+    values.runner ?? matrix?.runners ?? Object.keys(RUNNERS);
+  for (const r of runners)
+    if (RUNNERS[r] === undefined) throw new Error(`Unknown runner "${r}".`);
+  const format: string = values.format ?? "text";
+  if (format !== "text" && format !== "json")
+    throw new Error(`Unknown format "${format}".`);
+
+  const options: Partial<IExecuteConfig> = {
+    model: values.model,
+    scenarios:
+      values.scenario === undefined
+        ? undefined
+        : values.scenario.includes("all")
+        ? null
+        : values.scenario,
+    scenarioDirectory: values["scenario-dir"],
+    analyzePath: values.analyze,
+    componentsPath: values.components,
+    namespaces: values.namespace,
+    prompt: values.prompt?.length === 1 ? values.prompt[0] : undefined,
+    promptDirectory: values["prompt-dir"],
+    context:
+      values.context?.length === 1
+        ? (values.context[0] as IExecuteConfig["context"])
+        : undefined,
+    contextBudget: toInteger("context-budget", values["context-budget"]),
+    concurrency: toInteger(
+      "component-concurrency",
+      values["component-concurrency"]
+    ),
+    retries: toNatural("retries", values.retries),
+    attempts: toInteger("attempts", values.attempts),
+    baseURL: values["base-url"],
+    cassette: values.cassette as IExecuteConfig["cassette"] | undefined,
+    trace: values.trace,
+    pricesPath: values.prices,
+    lintPath: values.lint,
+  };
+  const trials: number = toInteger("trials", values.trials) ?? 1;
+  const concurrency: number = toInteger("concurrency", values.concurrency) ?? 1;
+
+  const prompts: string[] = values.prompt ?? [];
+  const contexts: string[] = values.context ?? [];
+  for (const c of contexts)
+    if (c !== "full" && c !== "trimmed")
+      throw new Error(`Unknown context mode "${c}".`);
+
+  let report: IRunReport;
+  if (
+    trials === 1 &&
+    prompts.length < 2 &&
+    contexts.length < 2 &&
+    matrix === null
+  ) {
+    // SINGLE PASS, REJECTING THE UNSUPPORTED RUNNERS BEFORE RUNNING ANY
+    for (const r of runners) {
+      const reason: string | null = (await RUNNER_CHECKS[r]?.(options)) ?? null;
+      if (reason !== null)
+        throw new Error(`Runner "${r}" is not supported: ${reason}`);
+    }
+    const output: Record<string, IComponentResult[]> = {};
+    for (const r of runners) {
+      if (format === "text") console.log(`\n## ${r}\n`);
+      output[r] = await RUNNERS[r](r, {
+        ...options,
+        verbose: format === "text",
+      });
+    }
+    if (format === "json") console.log(JSON.stringify(output, null, 2));
+    report = createRunReport(
+      runners.map((runner) => ({
+        runner,
+        trial: 1,
+        results: output[runner],
+      }))
+    );
+  } else {
+    // BENCHMARK, COMPARISON OF THE PROMPT VARIANTS AND CONTEXT MODES, OR THE
+    // MATRIX OF MODELS
+    const result = await benchmark({
+      runners: Object.fromEntries(runners.map((r) => [r, RUNNERS[r]])),
+      checks: RUNNER_CHECKS,
+      prompts: prompts.length < 2 ? undefined : prompts,
+      contexts:
+        contexts.length < 2
+          ? undefined
+          : (contexts as Array<IExecuteConfig["context"]>),
+      endpoints: matrix?.endpoints,
+      trials,
+      concurrency,
+      options,
+    });
+    if (format === "json") console.log(JSON.stringify(result, null, 2));
+    else printBenchmark(result);
+    report = createBenchmarkReport(result);
+  }
+  if (format === "text") {
+    printChains(summarizeChains(report));
+    printCosts(summarizeCosts(report));
+  }
+  if (values.report?.length) {
+    const locations: string[] = await writeReports({
+      report,
+      formats: values.report,
+      directory: values.output ?? path.join(__dirname, "..", "results"),
+    });
+    for (const l of locations) console.error(`Report written: ${l}`);
+  }
+};
+
+const toInteger = (
+  name: string,
+  value: string | undefined
+): number | undefined => {
+  if (value === undefined) return undefined;
+  const n: number = Number(value);
+  if (Number.isInteger(n) === false || n < 1)
+    throw new Error(`--${name} must be a positive integer, but "${value}".`);
+  return n;
+};
+
+const toNatural = (
+  name: string,
+  value: string | undefined
+): number | undefined => (value === "0" ? 0 : toInteger(name, value));
+
+main().catch((exp) => {
+  console.error(exp instanceof Error ? exp.message : exp);
+  console.error(USAGE);
+  process.exit(-1);
+});
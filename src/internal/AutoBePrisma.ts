@@ -206,6 +206,15 @@ export namespace AutoBePrisma {
      * Models can reference each other through foreign key relationships.
      */
     models: IModel[] & tags.MinItems<1>;
+
+    /**
+     * Array of enum types used by the plain fields of the models.
+     *
+     * Enum types are declared in the file of the models using them, and
+     * referenced by {@link IPlainField.enumName}. Omit when the file has no
+     * enum typed field.
+     */
+    enums?: IEnum[];
   }
 
   /**
@@ -261,11 +270,12 @@ export namespace AutoBePrisma {
     /**
      * The primary key field of the model.
      *
-     * In all uploaded schemas, primary keys are always UUID type with "@\id"
+     * In all uploaded schemas, primary keys are UUID type with "@\id"
      * directive. Usually named "id" and marked with "@\db.Uuid" for PostgreSQL
-     * mapping.
+     * mapping. Junction tables of M:N relationships may use the composite
+     * primary key of their foreign keys instead, with "@@\id" directive.
      */
-    primaryField: IPrimaryField;
+    primaryField: IPrimaryField | ICompositePrimaryField;
 
     /**
      * Array of foreign key fields that reference other models.
@@ -351,6 +361,38 @@ export namespace AutoBePrisma {
     description: string;
   }
 
+  /**
+   * Interface representing the composite primary key of a junction table.
+   *
+   * Junction tables of M:N relationships are identified by the combination of
+   * their foreign keys, instead of their own UUID. Models having the composite
+   * primary key can't be referenced by foreign keys.
+   */
+  export interface ICompositePrimaryField {
+    /**
+     * Discriminator of the composite primary key.
+     */
+    type: "composite";
+
+    /**
+     * Array of field names that together form the primary key.
+     *
+     * Usually the foreign keys of both sides of the M:N relationship. All
+     * field names must exist in the model as non-nullable fields. Examples:
+     * ["shopping_sale_id", "shopping_tag_id"]
+     */
+    fieldNames: Array<string & tags.Pattern<"^[a-z][a-z0-9_]*$">> &
+      tags.MinItems<2> &
+      tags.UniqueItems;
+
+    /**
+     * Description of the composite primary key's purpose.
+     *
+     * Example: "Composite Primary Key of the sale and the tag."
+     */
+    description: string;
+  }
+
   /**
    * Interface representing a foreign key field that establishes relationships
    * between models.
@@ -530,9 +572,29 @@ export namespace AutoBePrisma {
      * - String: Text data, names, descriptions, codes
      * - Uri: URL/URI fields for links and references
      * - Uuid: UUID fields (for non-foreign-key UUIDs)
+     * - Date: Date fields without time, like birth dates
      * - Datetime: Timestamp fields with date and time
+     * - Enum: Fields of a fixed set of values, like statuses, whose type is
+     *   named by {@link enumName}
+     */
+    type:
+      | "boolean"
+      | "int"
+      | "double"
+      | "string"
+      | "uri"
+      | "uuid"
+      | "date"
+      | "datetime"
+      | "enum";
+
+    /**
+     * Name of the enum type, only when the {@link type} is "enum".
+     *
+     * Must be one of the {@link IFile.enums} of the same file. Example:
+     * "shopping_order_statuses"
      */
-    type: "boolean" | "int" | "double" | "string" | "uri" | "uuid" | "datetime";
+    enumName?: string;
 
     /**
      * Description explaining the business purpose and usage of this field.
@@ -555,6 +617,69 @@ export namespace AutoBePrisma {
      * name) Reflects business rules about mandatory vs optional data.
      */
     nullable: boolean;
+
+    /**
+     * Default value of the field, filled when a record is created without it.
+     *
+     * Examples: `{ type: "now" }` for created_at, `{ type: "value", value:
+     * false }` for flags, `{ type: "value", value: "pending" }` for the
+     * initial status of an enum typed field. Omit when there's no default.
+     */
+    default?: IDefault;
+  }
+
+  /**
+   * Default value of a plain field.
+   *
+   * - `now`: current timestamp, only for "date" and "datetime" fields
+   * - `uuid`: random UUID, only for "uuid" fields
+   * - `value`: literal value matching the field type, or a value of the enum
+   *   for "enum" fields
+   */
+  export type IDefault = IDefault.INow | IDefault.IUuid | IDefault.IValue;
+  export namespace IDefault {
+    export interface INow {
+      type: "now";
+    }
+    export interface IUuid {
+      type: "uuid";
+    }
+    export interface IValue {
+      type: "value";
+      value: boolean | number | string;
+    }
+  }
+
+  /**
+   * Interface representing an enum type, a fixed set of values.
+   *
+   * Used for statuses, kinds and categories which are closed by the business
+   * rules, like order statuses or user roles. Generated as a Prisma "enum"
+   * block, and referenced by {@link IPlainField.enumName}.
+   */
+  export interface IEnum {
+    /**
+     * Name of the enum type.
+     *
+     * Should follow snake_case convention with domain prefix, and must not
+     * collide with other enums of the application. Examples:
+     * "shopping_order_statuses", "bbs_article_kinds"
+     */
+    name: string & tags.Pattern<"^[a-z][a-z0-9_]*$">;
+
+    /**
+     * Description explaining the business meaning of the enum and its values.
+     */
+    description: string;
+
+    /**
+     * Values of the enum.
+     *
+     * Examples: ["pending", "paid", "shipped", "delivered", "cancelled"]
+     */
+    values: Array<string & tags.Pattern<"^[a-z][a-z0-9_]*$">> &
+      tags.MinItems<1> &
+      tags.UniqueItems;
   }
 
   /**
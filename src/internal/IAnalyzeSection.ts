@@ -0,0 +1,25 @@
+/**
+ * Section of a requirement analysis document, split by its headings.
+ */
+export interface IAnalyzeSection {
+  /**
+   * Key of the document in the requirement analysis report.
+   */
+  document: string;
+
+  /**
+   * Order of the section in the document, starting from `0`.
+   */
+  index: number;
+
+  /**
+   * Heading line of the section, or empty for the text before the first
+   * heading.
+   */
+  heading: string;
+
+  /**
+   * Whole text of the section, including the heading line.
+   */
+  text: string;
+}
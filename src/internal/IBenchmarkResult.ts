@@ -0,0 +1,131 @@
+import { IComponentResult } from "./IComponentResult";
+
+/**
+ * Result of the benchmark, running each runner multiple times.
+ */
+export interface IBenchmarkResult {
+  /**
+   * Number of trials per runner.
+   */
+  trials: number;
+
+  /**
+   * Statistics of each runner.
+   */
+  runners: IBenchmarkResult.IRunner[];
+}
+export namespace IBenchmarkResult {
+  export interface IRunner {
+    /**
+     * Name of the entry, `{runner}@{prompt}` when comparing prompt variants,
+     * suffixed by `#{context}` when comparing context modes, and prefixed by
+     * `{endpoint}/{model}/` in the matrix run.
+     */
+    name: string;
+
+    /**
+     * Name of the runner.
+     */
+    runner: string;
+
+    /**
+     * Name of the system prompt variant, `null` if not compared.
+     */
+    prompt: string | null;
+
+    /**
+     * Context mode of the requirement analysis report, `null` if not
+     * compared.
+     */
+    context: "full" | "trimmed" | null;
+
+    /**
+     * Name of the endpoint of the matrix, `null` if not in the matrix run.
+     */
+    endpoint: string | null;
+
+    /**
+     * Name of the called model in the matrix, `null` if not in the matrix
+     * run.
+     */
+    model: string | null;
+
+    /**
+     * Reason why the runner does not support the entry, like a prompt variant
+     * with placeholders in the parallel mode, `null` when supported.
+     *
+     * Unsupported entries are not executed, so their statistics are empty.
+     */
+    unsupported: string | null;
+
+    /**
+     * Statistics over every component of every trial.
+     */
+    overall: IStatistics;
+
+    /**
+     * Statistics of each component namespace.
+     */
+    namespaces: INamespace[];
+
+    /**
+     * Raw results of every trial.
+     */
+    executions: IComponentResult[][];
+  }
+
+  export interface INamespace extends IStatistics {
+    /**
+     * Namespace, qualified by the scenario (`{scenario}/{namespace}`) when
+     * the results span multiple scenarios.
+     */
+    namespace: string;
+  }
+
+  export interface IStatistics {
+    /**
+     * Number of function calling results.
+     */
+    count: number;
+
+    /**
+     * Number of successful results.
+     */
+    success: number;
+
+    /**
+     * Success rate, `success / count`.
+     */
+    rate: number;
+
+    /**
+     * 95% confidence interval of the success rate, Wilson score interval.
+     */
+    interval: [lower: number, upper: number];
+
+    /**
+     * Number of failed results by kind.
+     *
+     * A failed result can be counted in multiple kinds.
+     */
+    failures: Record<FailureKind, number>;
+  }
+
+  /**
+   * Kind of the failure.
+   *
+   * - `missingTable`: some of `targetComponent.tables` are not created
+   * - `extraTable`: tables neither in the target nor other components are
+   *   created
+   * - `otherComponentTable`: tables of `otherComponents` are created
+   * - `typeError`: the function calling arguments violate the type
+   * - `error`: the execution has failed, like network error or no function
+   *   calling
+   */
+  export type FailureKind =
+    | "missingTable"
+    | "extraTable"
+    | "otherComponentTable"
+    | "typeError"
+    | "error";
+}
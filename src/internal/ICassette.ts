@@ -0,0 +1,49 @@
+/**
+ * Recorded LLM traffic of a component.
+ *
+ * Stored as `{directory}/{runner}/{scenario}/{namespace}.json`, and served
+ * back in order in the replay mode instead of calling the API.
+ */
+export interface ICassette {
+  /**
+   * Name of the runner.
+   */
+  runner: string;
+
+  /**
+   * Namespace of the target component.
+   */
+  namespace: string;
+
+  /**
+   * Recorded request and response pairs, in order of occurrence.
+   */
+  interactions: ICassette.IInteraction[];
+}
+export namespace ICassette {
+  export interface IInteraction {
+    request: IRequest;
+    response: IResponse;
+  }
+
+  export interface IRequest {
+    method: string;
+    url: string;
+
+    /**
+     * Request body, parsed from JSON if possible.
+     */
+    body: unknown;
+  }
+
+  export interface IResponse {
+    status: number;
+    headers: Record<string, string>;
+
+    /**
+     * Raw response body, including the `text/event-stream` of streaming
+     * requests.
+     */
+    body: string;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Consistency of the four-step chain of {@link IFunctionCallingResult}.
+ *
+ * The function calling result forces the AI to check itself step by step,
+ * `tablesToCreate` → `validationReview` → `confirmedTables` → `models`. Each
+ * property tells whether a step has been followed, comparing the tables
+ * regardless of their order.
+ */
+export interface IChainConsistency {
+  /**
+   * Whether `tablesToCreate` is an exact copy of `targetComponent.tables`.
+   */
+  copied: boolean;
+
+  /**
+   * Whether `confirmedTables` equals `tablesToCreate`.
+   */
+  confirmed: boolean;
+
+  /**
+   * Whether `models` match `confirmedTables` one to one.
+   */
+  modeled: boolean;
+
+  /**
+   * Whether `validationReview` tells the truth, not leading with the
+   * "VALIDATION PASSED" verdict while any of the other steps disagree.
+   */
+  honest: boolean;
+
+  /**
+   * Ratio of the followed steps, from `0` to `1`.
+   */
+  score: number;
+}
@@ -0,0 +1,84 @@
+/**
+ * Consistency of the four-step chain aggregated per runner and namespace.
+ */
+export interface IChainSummary {
+  /**
+   * Aggregation of each runner.
+   */
+  runners: IChainSummary.IRunner[];
+}
+export namespace IChainSummary {
+  export interface IRunner {
+    /**
+     * Name of the runner.
+     */
+    name: string;
+
+    /**
+     * Aggregation over every component of every trial.
+     */
+    overall: IAggregate;
+
+    /**
+     * Aggregation of each component namespace.
+     */
+    namespaces: INamespace[];
+  }
+
+  export interface INamespace extends IAggregate {
+    /**
+     * Namespace, qualified by the scenario (`{scenario}/{namespace}`) when
+     * the results span multiple scenarios.
+     */
+    namespace: string;
+  }
+
+  export interface IAggregate {
+    /**
+     * Number of analyzed results, excluding the failed executions.
+     */
+    count: number;
+
+    /**
+     * Number of results whose `tablesToCreate` copies the target component.
+     */
+    copied: number;
+
+    /**
+     * Number of results whose `confirmedTables` equals `tablesToCreate`.
+     */
+    confirmed: number;
+
+    /**
+     * Number of results whose `models` match `confirmedTables`.
+     */
+    modeled: number;
+
+    /**
+     * Number of results whose `validationReview` tells the truth.
+     */
+    honest: number;
+
+    /**
+     * Number of results following every step.
+     */
+    consistent: number;
+
+    /**
+     * Average score of the results, from `0` to `1`.
+     */
+    score: number;
+
+    /**
+     * Success rates of the consistent and inconsistent results, `null` if
+     * there's no such result.
+     *
+     * If the consistent results succeed more, the scaffolding fields help
+     * the accuracy.
+     */
+    successRate: {
+      consistent: number | null;
+      inconsistent: number | null;
+    };
+  }
+}
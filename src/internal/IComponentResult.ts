@@ -0,0 +1,246 @@
+import { IChainConsistency } from "./IChainConsistency";
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+import { ILintViolation } from "./ILintViolation";
+import { IPrismaValidationError } from "./IPrismaValidationError";
+
+/**
+ * Result of the function calling for a component.
+ */
+export interface IComponentResult {
+  /**
+   * Name of the scenario the target component belongs to.
+   */
+  scenario: string;
+
+  /**
+   * Namespace of the target component.
+   */
+  namespace: string;
+
+  /**
+   * Filename of the target component.
+   */
+  filename: string;
+
+  /**
+   * Name of the called model.
+   */
+  model: string;
+
+  /**
+   * Name of the system prompt variant.
+   */
+  prompt: string;
+
+  /**
+   * Context of the requirement analysis report, full or trimmed.
+   */
+  context: "full" | "trimmed";
+
+  /**
+   * Whether the generated models exactly match the `targetComponent.tables`.
+   */
+  success: boolean;
+
+  /**
+   * Sorted `targetComponent.tables`.
+   */
+  expected: string[];
+
+  /**
+   * Sorted names of the generated models.
+   */
+  actual: string[];
+
+  /**
+   * Tables of `targetComponent.tables` which are not generated.
+   */
+  missing: string[];
+
+  /**
+   * Generated tables which are not in `targetComponent.tables`.
+   */
+  extra: string[];
+
+  /**
+   * Extra tables belonging to `otherComponents`, the tables must never be
+   * created in the target component.
+   */
+  otherComponentTables: string[];
+
+  /**
+   * Consistency of the four-step chain of the function calling result, `null`
+   * if the execution has failed.
+   */
+  chain: IChainConsistency | null;
+
+  /**
+   * Violations of the {@link IFunctionCallingResult} type, validated by
+   * `typia`, like names breaking the pattern or unknown field types.
+   *
+   * Reported separately from the table selection, and the semantic
+   * {@link errors} are not validated until the type is satisfied.
+   */
+  typeErrors: IComponentResult.ITypeError[];
+
+  /**
+   * Semantic errors of the generated models.
+   */
+  errors: IPrismaValidationError[];
+
+  /**
+   * Violations of the lint rules, conventions of the naming and the
+   * normalization demanded by the system prompt.
+   */
+  lint: ILintViolation[];
+
+  /**
+   * Models and fields whose descriptions trace no requirement of the analysis
+   * report, as `{model}` or `{model}.{field}`.
+   *
+   * Analyzed after every component is done, with the assembled application.
+   */
+  untraced: string[];
+
+  /**
+   * Number of function calling attempts, including corrections.
+   */
+  attempts: number;
+
+  /**
+   * Wall-clock latency of the component in milliseconds, including retries and
+   * corrections.
+   */
+  latency: number;
+
+  /**
+   * Token usage summed over every API call of the component.
+   */
+  tokens: IComponentResult.ITokens;
+
+  /**
+   * Cost of the {@link tokens} in USD, `null` if the model has no price.
+   */
+  cost: IComponentResult.ICost | null;
+
+  /**
+   * Every API call of the component, including internal requests of the
+   * agent framework and the corrections.
+   */
+  calls: IComponentResult.ICall[];
+
+  /**
+   * Error message when the execution has failed, like a network error or no
+   * function calling.
+   *
+   * Failed executions are reported as an error row, without aborting the
+   * other components.
+   */
+  error: string | null;
+
+  /**
+   * Matching of the tool calls, only in the parallel function calling mode.
+   */
+  parallel?: IComponentResult.IParallel;
+}
+export namespace IComponentResult {
+  export interface ITokens {
+    prompt: number;
+    completion: number;
+
+    /**
+     * Prompt tokens served from the prompt cache.
+     */
+    cached: number;
+    total: number;
+  }
+
+  /**
+   * Cost in USD, by kind of the tokens.
+   */
+  export interface ICost {
+    /**
+     * Cost of the prompt tokens, not served from the cache.
+     */
+    prompt: number;
+
+    /**
+     * Cost of the prompt tokens served from the cache.
+     */
+    cached: number;
+    completion: number;
+    total: number;
+  }
+
+  export interface ICall {
+    /**
+     * Wall-clock latency of the call in milliseconds, including retries and
+     * reading the (streamed) response body.
+     */
+    latency: number;
+    tokens: ITokens;
+  }
+
+  /**
+   * Type violation of the function calling arguments.
+   */
+  export interface ITypeError {
+    /**
+     * Accessor path of the invalid value.
+     *
+     * Example: `$input.models[0].plainFields[2].type`
+     */
+    path: string;
+
+    /**
+     * Expected type, like `("boolean" | "int" | "string")`.
+     */
+    expected: string;
+
+    /**
+     * Actual value.
+     */
+    value: unknown;
+  }
+
+  export interface IParallel {
+    /**
+     * Number of tool calls matched to the component.
+     *
+     * `0` means the call is missing, and more than `1` means duplicated.
+     */
+    calls: number;
+
+    /**
+     * Tables of the component created in the calls matched to other
+     * components.
+     */
+    misattributed: string[];
+
+    /**
+     * Tool calls of the scenario matching no component, or whose arguments
+     * cannot be parsed.
+     *
+     * Shared by every component of the scenario, as they belong to none.
+     */
+    unattributed: IUnattributed[];
+  }
+
+  export interface IUnattributed {
+    /**
+     * Sequence number of the tool call in the response, starting from 0.
+     */
+    index: number;
+
+    /**
+     * Names of the models created in the call.
+     */
+    tables: string[];
+
+    /**
+     * Error message of parsing the arguments, `null` when parsed but matching
+     * no component.
+     */
+    error: string | null;
+  }
+}
@@ -0,0 +1,64 @@
+import { IComponentResult } from "./IComponentResult";
+
+/**
+ * Token usage, latency and cost aggregated per runner and namespace.
+ */
+export interface ICostSummary {
+  /**
+   * Aggregation of each runner.
+   */
+  runners: ICostSummary.IRunner[];
+}
+export namespace ICostSummary {
+  export interface IRunner {
+    /**
+     * Name of the runner.
+     */
+    name: string;
+
+    /**
+     * Aggregation over every component of every trial.
+     */
+    overall: IAggregate;
+
+    /**
+     * Aggregation of each component namespace.
+     */
+    namespaces: INamespace[];
+  }
+
+  export interface INamespace extends IAggregate {
+    /**
+     * Namespace, qualified by the scenario (`{scenario}/{namespace}`) when
+     * the results span multiple scenarios.
+     */
+    namespace: string;
+  }
+
+  export interface IAggregate {
+    /**
+     * Number of component results.
+     */
+    count: number;
+
+    /**
+     * Number of API calls.
+     */
+    calls: number;
+
+    /**
+     * Average latency of a component in milliseconds.
+     */
+    latency: number;
+
+    /**
+     * Sum of the token usages.
+     */
+    tokens: IComponentResult.ITokens;
+
+    /**
+     * Sum of the costs in USD, `null` if no model has a price.
+     */
+    cost: IComponentResult.ICost | null;
+  }
+}
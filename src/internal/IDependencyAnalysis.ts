@@ -0,0 +1,61 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+
+/**
+ * Dependencies between the components, derived from the foreign keys of the
+ * generated models.
+ */
+export interface IDependencyAnalysis {
+  /**
+   * Filenames each file depends on, keyed by filename.
+   *
+   * A file depends on another when any of its foreign keys refers to a table
+   * of the other file's component. Components not generated in the run have
+   * no dependency of their own.
+   */
+  graph: Record<string, string[]>;
+
+  /**
+   * Groups of files depending on each other circularly.
+   */
+  cycles: string[][];
+
+  /**
+   * Foreign keys referring to a table of a later-numbered file, violating
+   * the dependency order of `schema-{number}-{domain}.prisma`.
+   */
+  forwardReferences: IDependencyAnalysis.IForwardReference[];
+
+  /**
+   * Components renumbered in a topological order of the dependencies.
+   *
+   * The numbers of the filenames are reused, and the original order is kept
+   * as long as the dependencies allow it. Files in a cycle can't be ordered,
+   * so they keep their original order relative to each other.
+   */
+  suggestion: AutoBePrisma.IComponent[];
+}
+export namespace IDependencyAnalysis {
+  export interface IForwardReference {
+    /**
+     * Filename of the file having the foreign key.
+     */
+    filename: string;
+
+    /**
+     * JSON path of the foreign key's target model, relative to the file.
+     *
+     * Example: `models[2].foreignFields[0].relation.targetModel`
+     */
+    path: string;
+
+    /**
+     * Name of the referred table.
+     */
+    targetModel: string;
+
+    /**
+     * Filename of the file owning the referred table.
+     */
+    targetFilename: string;
+  }
+}
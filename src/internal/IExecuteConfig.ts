@@ -0,0 +1,183 @@
+/**
+ * Configuration of the {@link execute} function.
+ */
+export interface IExecuteConfig {
+  /**
+   * Name of the model to call.
+   *
+   * Defaults to the `OPENAI_MODEL` environment variable, or `gpt-4.1`.
+   */
+  model: string;
+
+  /**
+   * Names of the scenarios to execute, directories in the
+   * {@link scenarioDirectory}. `null` means every scenario.
+   *
+   * Defaults to the `SCENARIOS` environment variable (comma separated, or
+   * `all`), or `discussion-board`.
+   */
+  scenarios: string[] | null;
+
+  /**
+   * Directory of the scenarios, each of them bundling `analyze.json` and
+   * `components.json`.
+   *
+   * Defaults to the `SCENARIO_DIR` environment variable, or `src/scenarios/`.
+   */
+  scenarioDirectory: string;
+
+  /**
+   * Path of a custom requirement analysis report, a JSON dictionary of
+   * markdown documents.
+   *
+   * When this or {@link componentsPath} is given, they compose a single
+   * scenario named `custom`, instead of the {@link scenarios}.
+   */
+  analyzePath: string | null;
+
+  /**
+   * Path of custom components, a JSON array of
+   * {@link AutoBePrisma.IComponent}.
+   */
+  componentsPath: string | null;
+
+  /**
+   * Namespaces of the components to execute, in any of the scenarios.
+   *
+   * Other components are still delivered to the AI as `otherComponents`.
+   * `null` means every component.
+   */
+  namespaces: string[] | null;
+
+  /**
+   * Maximum number of components executed at the same time.
+   *
+   * Defaults to the `COMPONENT_CONCURRENCY` environment variable, or `8`.
+   */
+  concurrency: number;
+
+  /**
+   * Maximum number of retries per API call.
+   *
+   * Rate limits (429), server errors (5xx) and network failures are retried
+   * with exponential backoff and jitter, honouring the `Retry-After` header.
+   *
+   * Defaults to the `RETRIES` environment variable, or `5`.
+   */
+  retries: number;
+
+  /**
+   * Maximum number of function calling attempts per component.
+   *
+   * When greater than `1`, the correction mode is enabled: failed results are
+   * reviewed, and the validation errors are fed back to the AI until it
+   * succeeds or the attempts run out.
+   *
+   * Defaults to the `CORRECTION_ATTEMPTS` environment variable, or `1`.
+   */
+  attempts: number;
+
+  /**
+   * Base URL of the OpenAI compatible API.
+   *
+   * Point it to the mock server (`pnpm run mock`) to run offline. Defaults to
+   * the `OPENAI_BASE_URL` environment variable, or the official OpenAI API.
+   * An explicit `null` selects the official OpenAI API, ignoring the variable.
+   */
+  baseURL: string | null;
+
+  /**
+   * API key of the {@link baseURL}.
+   *
+   * Defaults to the `OPENAI_API_KEY` environment variable.
+   */
+  apiKey: string | null;
+
+  /**
+   * Name of the system prompt variant, a template file `{name}.md` in the
+   * {@link promptDirectory}.
+   *
+   * Placeholders like `{{namespace}}` and `{{tableCount}}` are interpolated
+   * with the target component. Defaults to the `SYSTEM_PROMPT` environment
+   * variable, or `v1`.
+   */
+  prompt: string;
+
+  /**
+   * Directory of the system prompt templates.
+   *
+   * Defaults to the `PROMPT_DIR` environment variable, or `src/prompts/`.
+   */
+  promptDirectory: string;
+
+  /**
+   * Context of the requirement analysis report delivered to the AI.
+   *
+   * - `full`: every document of the report as it is
+   * - `trimmed`: only the sections relevant to the target component, picked
+   *   by {@link trimAnalyze} within the {@link contextBudget}
+   *
+   * Defaults to the `CONTEXT` environment variable, or `full`.
+   */
+  context: "full" | "trimmed";
+
+  /**
+   * Maximum estimated tokens of the trimmed requirement analysis report.
+   *
+   * Defaults to the `CONTEXT_BUDGET` environment variable, or `2000`.
+   */
+  contextBudget: number;
+
+  /**
+   * Path of the JSON file overriding the price table, a dictionary of
+   * {@link IModelPrice} keyed by model name.
+   *
+   * Models not in the file keep the default prices of {@link MODEL_PRICES}.
+   * Defaults to the `MODEL_PRICES` environment variable, or `null`.
+   */
+  pricesPath: string | null;
+
+  /**
+   * Path of the JSON file adjusting the lint rules, a dictionary of the
+   * severity (`"error"`, `"warning"` or `"off"`) keyed by rule name.
+   *
+   * Rules not in the file keep the default severities of {@link LINT_RULES}.
+   * Defaults to the `LINT_CONFIG` environment variable, or `null`.
+   */
+  lintPath: string | null;
+
+  /**
+   * Cassette mode of the LLM traffic.
+   *
+   * - `record`: call the API, and save every request and response
+   * - `replay`: serve the recorded responses instead of calling the API
+   * - `null`: neither record nor replay
+   *
+   * Defaults to the `CASSETTE` environment variable, or `null`.
+   */
+  cassette: "record" | "replay" | null;
+
+  /**
+   * Directory of the cassette files,
+   * `{directory}/{runner}/{scenario}/{namespace}.json`.
+   *
+   * Defaults to the `CASSETTE_DIR` environment variable, or `cassettes/`.
+   */
+  cassetteDirectory: string;
+
+  /**
+   * Whether to write the trace of each component, ordering its API calls,
+   * agent events and runner interventions, into
+   * `results/{runner}/traces/{scenario}/{namespace}.json`.
+   *
+   * Defaults to the `TRACE` environment variable (`true`), or `false`.
+   */
+  trace: boolean;
+
+  /**
+   * Whether to print the result of each component.
+   *
+   * Defaults to `true`.
+   */
+  verbose: boolean;
+}
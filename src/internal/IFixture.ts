@@ -0,0 +1,10 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IScenario } from "./IScenario";
+
+/**
+ * Scenario and its components to execute.
+ */
+export interface IFixture {
+  scenario: IScenario;
+  targets: AutoBePrisma.IComponent[];
+}
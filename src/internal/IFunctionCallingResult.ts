@@ -54,4 +54,13 @@ export interface IFunctionCallingResult {
    * `model.name` must match an entry in `confirmedTables`.
    */
   models: AutoBePrisma.IModel[];
+
+  /**
+   * Enum types used by the plain fields of `models`
+   *
+   * Declare every enum referenced by `enumName` of the "enum" typed fields,
+   * like statuses or kinds closed by the business rules. Omit when no field
+   * is enum typed.
+   */
+  enums?: AutoBePrisma.IEnum[];
 }
@@ -0,0 +1,22 @@
+import { IComponentResult } from "./IComponentResult";
+
+/**
+ * Inspection of a function calling result, the part of the
+ * {@link IComponentResult} independent of the execution.
+ */
+export type IInspection = Omit<
+  IComponentResult,
+  | "scenario"
+  | "namespace"
+  | "filename"
+  | "model"
+  | "prompt"
+  | "context"
+  | "attempts"
+  | "latency"
+  | "tokens"
+  | "cost"
+  | "calls"
+  | "untraced"
+  | "error"
+>;
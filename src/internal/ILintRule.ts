@@ -0,0 +1,52 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+
+/**
+ * Lint rule run over each generated model.
+ *
+ * Unlike the validation errors making the schema broken, lint rules check the
+ * conventions demanded by the system prompt, like the normalization and the
+ * naming, so that each of them can be turned off or adjusted in severity.
+ */
+export interface ILintRule {
+  /**
+   * Explanation of the convention the rule checks.
+   */
+  description: string;
+
+  /**
+   * Default severity of the rule.
+   */
+  severity: ILintRule.Severity;
+
+  /**
+   * Check a model.
+   *
+   * @param props Model to check and its JSON path
+   * @returns Violations of the model, empty if none
+   */
+  check: (props: {
+    model: AutoBePrisma.IModel;
+    path: string;
+  }) => ILintRule.IViolation[];
+}
+export namespace ILintRule {
+  /**
+   * Severity of the rule.
+   *
+   * Violations of the `error` rules are fed back to the AI in the correction
+   * mode, and those of the `warning` rules are only reported.
+   */
+  export type Severity = "error" | "warning";
+
+  export interface IViolation {
+    /**
+     * JSON path of the violating value.
+     */
+    path: string;
+
+    /**
+     * Human readable explanation of the violation.
+     */
+    message: string;
+  }
+}
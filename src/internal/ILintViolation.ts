@@ -0,0 +1,28 @@
+import { ILintRule } from "./ILintRule";
+
+/**
+ * Violation of a lint rule in the generated models.
+ */
+export interface ILintViolation {
+  /**
+   * Name of the violated rule, key of the {@link LINT_RULES}.
+   */
+  rule: string;
+
+  /**
+   * Severity of the rule, after the configuration applied.
+   */
+  severity: ILintRule.Severity;
+
+  /**
+   * JSON path of the violating value.
+   *
+   * Example: `models[1].plainFields[3].name`
+   */
+  path: string;
+
+  /**
+   * Human readable explanation of the violation.
+   */
+  message: string;
+}
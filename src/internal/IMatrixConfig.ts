@@ -0,0 +1,49 @@
+import { tags } from "typia";
+
+/**
+ * Configuration of the matrix run, a JSON file.
+ *
+ * Every runner is executed against every model of every endpoint, with the
+ * same fixtures, and the results are combined into one comparison report.
+ * Each cell is named `{endpoint}/{model}/{runner}`.
+ */
+export interface IMatrixConfig {
+  /**
+   * Names of the runners, keys of {@link RUNNERS}.
+   *
+   * Runners selected by the command line take precedence. When neither is
+   * given, the default runners are executed.
+   */
+  runners?: string[] & tags.MinItems<1>;
+
+  /**
+   * OpenAI compatible endpoints, and the models to call on each of them.
+   */
+  endpoints: IMatrixConfig.IEndpoint[] & tags.MinItems<1>;
+}
+export namespace IMatrixConfig {
+  export interface IEndpoint {
+    /**
+     * Name of the endpoint, unique in the matrix.
+     */
+    name: string & tags.Pattern<"^[a-zA-Z0-9._-]+$">;
+
+    /**
+     * Base URL of the OpenAI compatible API, `null` for the official OpenAI
+     * API.
+     */
+    baseURL: string | null;
+
+    /**
+     * Name of the environment variable holding the API key.
+     *
+     * Defaults to `OPENAI_API_KEY`. Keys are never written in the file.
+     */
+    apiKeyEnv?: string;
+
+    /**
+     * Names of the models to call.
+     */
+    models: string[] & tags.MinItems<1>;
+  }
+}
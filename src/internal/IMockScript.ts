@@ -0,0 +1,42 @@
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+
+/**
+ * Script of the mock OpenAI server.
+ *
+ * Dictionary of scripted function calling responses, keyed by
+ * `targetComponent.namespace`. The n-th response is served for the n-th
+ * attempt of the conversation (counted by the feedback messages in the
+ * request), and the last one is repeated when the attempts exceed the script.
+ *
+ * Components not listed in the script receive a successful response,
+ * synthesized from their `targetComponent.tables`.
+ */
+export type IMockScript = Record<string, IMockScript.IResponse[]>;
+export namespace IMockScript {
+  export type IResponse = ITables | IResult | IRaw;
+
+  /**
+   * Response synthesizing minimal models of the listed tables.
+   */
+  export interface ITables {
+    type: "tables";
+    tables: string[];
+  }
+
+  /**
+   * Response returning the function calling arguments as they are.
+   */
+  export interface IResult {
+    type: "result";
+    result: IFunctionCallingResult;
+  }
+
+  /**
+   * Response returning the raw text of the function calling arguments, to
+   * simulate malformed JSON or type violations.
+   */
+  export interface IRaw {
+    type: "raw";
+    arguments: string;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Price of a model, in USD per 1M tokens.
+ */
+export interface IModelPrice {
+  /**
+   * Price of the prompt tokens, not served from the cache.
+   */
+  input: number;
+
+  /**
+   * Price of the prompt tokens served from the prompt cache.
+   */
+  cachedInput: number;
+
+  /**
+   * Price of the completion tokens.
+   */
+  output: number;
+}
@@ -0,0 +1,46 @@
+/**
+ * Semantic error detected in the models generated by AI function calling.
+ *
+ * Unlike the type level validation done by `typia`, it reports violations of
+ * rules that can't be expressed by the type system, like references to
+ * undefined tables or indexes on missing fields.
+ */
+export interface IPrismaValidationError {
+  /**
+   * Kind of the violated rule.
+   */
+  kind: IPrismaValidationError.Kind;
+
+  /**
+   * JSON path of the invalid value.
+   *
+   * Example: `models[2].foreignFields[1].relation.targetModel`
+   */
+  path: string;
+
+  /**
+   * Human readable explanation of the error.
+   */
+  message: string;
+}
+export namespace IPrismaValidationError {
+  export type Kind =
+    | "unknownTargetModel"
+    | "duplicatedField"
+    | "unknownIndexField"
+    | "nonStringGinIndex"
+    | "singleForeignKeyIndex"
+    | "invalidPrimaryKeyName"
+    | "materialNamingMismatch"
+    | "unresolvedTargetModel"
+    | "duplicatedModel"
+    | "orphanModel"
+    | "duplicatedMappingName"
+    | "invalidCompositePrimaryKey"
+    | "compositeTargetModel"
+    | "invalidEnumReference"
+    | "duplicatedEnum"
+    | "invalidDefaultValue"
+    | "forwardDependency"
+    | "circularDependency";
+}
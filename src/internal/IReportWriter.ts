@@ -0,0 +1,19 @@
+import { IRunReport } from "./IRunReport";
+
+/**
+ * Writer of a report format.
+ */
+export interface IReportWriter {
+  /**
+   * Extension of the report file, without the dot.
+   */
+  extension: string;
+
+  /**
+   * Serialize the report.
+   *
+   * @param report Report to write
+   * @returns Content of the report file
+   */
+  write: (report: IRunReport) => string;
+}
@@ -0,0 +1,55 @@
+import { IComponentResult } from "./IComponentResult";
+
+/**
+ * Machine-readable report of a run.
+ *
+ * Flattens the results of every runner and trial into records, so that
+ * report writers can group them freely.
+ */
+export interface IRunReport {
+  /**
+   * Creation time of the report.
+   */
+  created_at: string;
+
+  /**
+   * Records of every component of every runner and trial.
+   */
+  records: IRunReport.IRecord[];
+
+  /**
+   * Runners rejecting their configuration, not executed.
+   */
+  unsupported: IRunReport.IUnsupported[];
+}
+export namespace IRunReport {
+  /**
+   * Result of a component, with the runner and trial it belongs to.
+   */
+  export interface IRecord extends IComponentResult {
+    /**
+     * Name of the runner.
+     */
+    runner: string;
+
+    /**
+     * Sequence number of the trial, starting from 1.
+     */
+    trial: number;
+  }
+
+  /**
+   * Runner rejecting its configuration.
+   */
+  export interface IUnsupported {
+    /**
+     * Name of the runner.
+     */
+    runner: string;
+
+    /**
+     * Reason of the rejection.
+     */
+    reason: string;
+  }
+}
@@ -0,0 +1,24 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+
+/**
+ * Fixture of a domain, bundled in a directory of the scenarios.
+ *
+ * - `analyze.json`: requirement analysis report
+ * - `components.json`: components to generate
+ */
+export interface IScenario {
+  /**
+   * Name of the scenario, the directory name.
+   */
+  name: string;
+
+  /**
+   * Requirement analysis report, dictionary of markdown documents.
+   */
+  analyze: Record<string, string>;
+
+  /**
+   * Components of the tables, in dependency order.
+   */
+  components: AutoBePrisma.IComponent[];
+}
@@ -0,0 +1,70 @@
+import { ILlmApplication } from "@samchon/openapi";
+import OpenAI from "openai";
+
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+import { ITrace } from "./ITrace";
+
+/**
+ * Properties delivered to a runner's task, generating models of a component.
+ */
+export interface ITaskProps {
+  /**
+   * OpenAI SDK instance.
+   */
+  api: OpenAI;
+
+  /**
+   * Name of the model to call.
+   */
+  model: string;
+
+  /**
+   * LLM function calling application composed by `typia`.
+   */
+  application: ILlmApplication<"chatgpt">;
+
+  /**
+   * System prompt of the Prisma schema expert.
+   */
+  systemPrompt: string;
+
+  /**
+   * Requirement analysis report, dictionary of markdown documents.
+   */
+  analyze: Record<string, string>;
+
+  /**
+   * Component whose tables must be generated.
+   */
+  targetComponent: AutoBePrisma.IComponent;
+
+  /**
+   * Other components, whose tables must not be generated.
+   */
+  otherComponents: AutoBePrisma.IComponent[];
+
+  /**
+   * Review the result of a function call.
+   *
+   * Returns a feedback message when the result must be corrected, so that the
+   * runner delivers it to the AI and tries the function calling again. If
+   * `null`, the result is accepted (or no more attempts are left), and the
+   * runner must return it.
+   *
+   * @param result Result of the function calling
+   * @returns Feedback message, or `null` when accepted
+   */
+  review: (result: IFunctionCallingResult) => string | null;
+
+  /**
+   * Record an event into the trace of the component.
+   *
+   * API calls are traced at the HTTP level, so the task only has to record
+   * what can't be seen there, like the internal events of an agent and the
+   * modifications of the requests. Does nothing when tracing is disabled.
+   *
+   * @param event Origin, type and details of the event
+   */
+  trace: (event: Pick<ITrace.IEvent, "source" | "type" | "data">) => void;
+}
@@ -0,0 +1,69 @@
+/**
+ * Ordered trace of a component's execution.
+ *
+ * Stored as `results/{runner}/traces/{scenario}/{namespace}.json`, merging the
+ * HTTP traffic, the internal events of `MicroAgentica` and the interventions
+ * of the runner in order of occurrence, so that the executions of different
+ * runners can be compared side by side.
+ */
+export interface ITrace {
+  /**
+   * Name of the runner.
+   */
+  runner: string;
+
+  /**
+   * Namespace of the target component, qualified by the scenario.
+   */
+  namespace: string;
+
+  /**
+   * Time when the execution has started.
+   */
+  started_at: string;
+
+  /**
+   * Events in order of occurrence.
+   */
+  events: ITrace.IEvent[];
+}
+export namespace ITrace {
+  export interface IEvent {
+    /**
+     * Order of occurrence, starting from `0`.
+     */
+    sequence: number;
+
+    /**
+     * Origin of the event.
+     *
+     * - `http`: request, response or failure of an API call
+     * - `agentica`: event emitted by `MicroAgentica`
+     * - `runner`: intervention of the runner, like injecting `tool_choice`,
+     *   reviewing the result or failing the execution
+     */
+    source: Source;
+
+    /**
+     * Type of the event, like `request`, `call` or `review`.
+     */
+    type: string;
+
+    /**
+     * Time when the event has occurred.
+     */
+    created_at: string;
+
+    /**
+     * Elapsed milliseconds since {@link ITrace.started_at}.
+     */
+    elapsed: number;
+
+    /**
+     * Details of the event.
+     */
+    data: unknown;
+  }
+
+  export type Source = "http" | "agentica" | "runner";
+}
@@ -0,0 +1,83 @@
+/**
+ * Traceability of the generated models to the requirement analysis report.
+ *
+ * Every description of the models and their fields is expected to cite the
+ * requirement it implements. Descriptions are mapped to the sections of the
+ * analysis documents they cite, or they lexically overlap with.
+ */
+export interface ITraceability {
+  /**
+   * Every description of the models and fields, excluding the primary keys.
+   */
+  descriptions: ITraceability.IDescription[];
+
+  /**
+   * Sections of the analysis documents referenced by none of the
+   * descriptions.
+   */
+  uncovered: ITraceability.ISection[];
+}
+export namespace ITraceability {
+  export interface IDescription {
+    /**
+     * Filename of the file the model belongs to.
+     */
+    filename: string;
+
+    /**
+     * Name of the model.
+     */
+    model: string;
+
+    /**
+     * Name of the field, `null` for the model description.
+     */
+    field: string | null;
+
+    /**
+     * Accessor path of the description in the file.
+     *
+     * Example: `models[0].plainFields[2].description`
+     */
+    path: string;
+
+    /**
+     * Sections the description refers to, empty when untraceable.
+     */
+    references: IReference[];
+  }
+
+  export interface IReference extends ISection {
+    /**
+     * How the section is referred.
+     *
+     * - `citation`: the document name or the heading is cited
+     * - `similarity`: the words lexically overlap with the section
+     */
+    kind: "citation" | "similarity";
+
+    /**
+     * Cosine similarity of the TF-IDF vectors, `1` for the citation.
+     */
+    score: number;
+  }
+
+  export interface ISection {
+    /**
+     * Key of the document in the requirement analysis report.
+     */
+    document: string;
+
+    /**
+     * Order of the section in the document, starting from `0`, telling apart
+     * the sections of the same heading.
+     */
+    index: number;
+
+    /**
+     * Heading line of the section, or empty for the text before the first
+     * heading.
+     */
+    heading: string;
+  }
+}
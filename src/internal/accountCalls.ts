@@ -0,0 +1,49 @@
+import OpenAI from "openai";
+
+import { computeCost } from "./computeCost";
+import { IComponentResult } from "./IComponentResult";
+import { IModelPrice } from "./IModelPrice";
+
+/**
+ * Compose the token usage and its cost from the API calls of a component.
+ */
+export function accountCalls(props: {
+  model: string;
+  prices: Record<string, IModelPrice>;
+  calls: IComponentResult.ICall[];
+}): Pick<IComponentResult, "tokens" | "cost" | "calls"> {
+  const sum = (closure: (t: IComponentResult.ITokens) => number) =>
+    props.calls.map((c) => closure(c.tokens)).reduce((x, y) => x + y, 0);
+  const tokens: IComponentResult.ITokens = {
+    prompt: sum((t) => t.prompt),
+    completion: sum((t) => t.completion),
+    cached: sum((t) => t.cached),
+    total: sum((t) => t.total),
+  };
+  return {
+    tokens,
+    cost: computeCost({
+      model: props.model,
+      tokens,
+      prices: props.prices,
+    }),
+    calls: props.calls,
+  };
+}
+
+export function toCalls(
+  records: Array<{
+    usage: OpenAI.CompletionUsage | null;
+    latency: number;
+  }>
+): IComponentResult.ICall[] {
+  return records.map((r) => ({
+    latency: r.latency,
+    tokens: {
+      prompt: r.usage?.prompt_tokens ?? 0,
+      completion: r.usage?.completion_tokens ?? 0,
+      cached: r.usage?.prompt_tokens_details?.cached_tokens ?? 0,
+      total: r.usage?.total_tokens ?? 0,
+    },
+  }));
+}
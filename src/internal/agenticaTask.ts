@@ -0,0 +1,147 @@
+import {
+  IAgenticaController,
+  MicroAgentica,
+  MicroAgenticaEvent,
+} from "@agentica/core";
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+import { ITaskProps } from "./ITaskProps";
+
+/**
+ * Generate models of a component through the `MicroAgentica` agent.
+ *
+ * Every event of the agent is recorded into the trace, with the injection of
+ * `tool_choice` into its requests. When a turn ends without calling the
+ * function, the conversation stops with the last result instead of reviewing
+ * it again, or fails when the function has never been called.
+ *
+ * The arguments are parsed inside the agent, which asks the AI to correct a
+ * JSON parse error by itself, so that they are not repaired by
+ * `parseArguments()` like the other runners.
+ */
+export const agenticaTask = async (
+  props: ITaskProps
+): Promise<IFunctionCallingResult> => {
+  const results: IFunctionCallingResult[] = [];
+  const agentica = new MicroAgentica({
+    model: "chatgpt",
+    vendor: {
+      api: props.api,
+      model: props.model,
+    },
+    config: {
+      executor: {},
+      systemPrompt: {
+        common: () => props.systemPrompt,
+        execute: () =>
+          "You are a helpful assistant that doing AI function calling.",
+      },
+    },
+    histories: [
+      {
+        type: "assistantMessage",
+        text: JSON.stringify({
+          requirementAnalysisReport: props.analyze,
+          targetComponent: props.targetComponent,
+          otherComponents: props.otherComponents,
+        }),
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+      },
+    ],
+    controllers: [
+      {
+        protocol: "class",
+        name: "default",
+        application: props.application,
+        execute: {
+          // VALIDATED BY TYPIA IN THE REVIEW, NOT TRUSTED AS IT IS
+          make: (v: unknown): void => {
+            results.push(v as IFunctionCallingResult);
+          },
+        },
+      } satisfies IAgenticaController.IClass<"chatgpt">,
+    ],
+  });
+  for (const type of EVENT_TYPES)
+    agentica.on(type, (event) =>
+      props.trace({
+        source: "agentica",
+        type,
+        data: simplify(event),
+      })
+    );
+  agentica.on("request", (req) => {
+    if (!req.body.tools) return;
+    props.trace({
+      source: "runner",
+      type: "inject",
+      data: {
+        tool_choice: {
+          from: req.body.tool_choice ?? null,
+          to: "required",
+        },
+      },
+    });
+    req.body.tool_choice = "required";
+  });
+
+  // CORRECTION MODE, DELIVER FEEDBACK AS A FOLLOW-UP MESSAGE
+  let content: string = `Do function calling`;
+  while (true) {
+    const count: number = results.length;
+    await agentica.conversate(content);
+    if (results.length === count) {
+      if (count === 0) throw new Error("No function call has been made.");
+      props.trace({
+        source: "runner",
+        type: "stop",
+        data: {
+          reason: "No function call has been made.",
+        },
+      });
+      return results[count - 1];
+    }
+
+    // THE LAST CALL OF THE TURN, NEVER THE ONE OF THE PREVIOUS TURNS
+    const result: IFunctionCallingResult = results[results.length - 1];
+    const feedback: string | null = props.review(result);
+    if (feedback === null) return result;
+    content = feedback;
+  }
+};
+
+const EVENT_TYPES = [
+  "userMessage",
+  "request",
+  "response",
+  "call",
+  "validate",
+  "jsonParseError",
+  "execute",
+  "describe",
+  "assistantMessage",
+] as const satisfies readonly MicroAgenticaEvent.Type[];
+
+/**
+ * Serializable properties of an event, referring the operation by its name.
+ * Request bodies and streams (async generators) are left to the HTTP level
+ * trace.
+ */
+function simplify(
+  event: MicroAgenticaEvent<"chatgpt">
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(event)
+      .filter(
+        ([key, value]) =>
+          key !== "type" &&
+          key !== "body" &&
+          typeof value !== "function" &&
+          (value instanceof Object && Symbol.asyncIterator in value) === false
+      )
+      .map(([key, value]) => [
+        key,
+        key === "operation" ? (value as { name: string }).name : value,
+      ])
+  );
+}
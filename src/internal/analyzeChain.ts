@@ -0,0 +1,64 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IChainConsistency } from "./IChainConsistency";
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+
+/**
+ * Score whether the AI has followed the four-step chain of the function
+ * calling result.
+ *
+ * Unlike the table selection comparing `models` with the target component
+ * only, every step is compared with the previous one, so that the benchmark
+ * can tell whether the scaffolding fields actually improve the accuracy. The
+ * result may violate its type, so that non-array steps are regarded as empty,
+ * and so is every step of a non-object result (like `null` arguments).
+ *
+ * @param props Target component and the function calling result
+ * @returns Consistency of each step
+ */
+export function analyzeChain(props: {
+  targetComponent: AutoBePrisma.IComponent;
+  result: IFunctionCallingResult;
+}): IChainConsistency {
+  const result: Partial<IFunctionCallingResult> =
+    typeof props.result === "object" && props.result !== null
+      ? props.result
+      : {};
+  const tablesToCreate: string[] = list(result.tablesToCreate);
+  const confirmedTables: string[] = list(result.confirmedTables);
+  const models: string[] = list(
+    Array.isArray(result.models) ? result.models.map((m) => m?.name) : []
+  );
+
+  const copied: boolean = equals(props.targetComponent.tables, tablesToCreate);
+  const confirmed: boolean = equals(tablesToCreate, confirmedTables);
+  const modeled: boolean = equals(confirmedTables, models);
+  const honest: boolean =
+    (copied && confirmed && modeled) ||
+    PASSED.test(String(result.validationReview ?? "")) === false;
+  return {
+    copied,
+    confirmed,
+    modeled,
+    honest,
+    score: [copied, confirmed, modeled, honest].filter((b) => b).length / 4,
+  };
+}
+
+/**
+ * Verdict claiming the validation has passed, leading the review like
+ * "VALIDATION PASSED: ...", so that negations like "NOT PASSED" or a passing
+ * mention in the middle of the review are not regarded as the claim.
+ */
+const PASSED = /^\s*(?:VALIDATION\s+)?PASSED\b/i;
+
+function list(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string")
+    : [];
+}
+
+function equals(x: string[], y: string[]): boolean {
+  const a: string[] = x.slice().sort();
+  const b: string[] = y.slice().sort();
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
@@ -0,0 +1,157 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IDependencyAnalysis } from "./IDependencyAnalysis";
+
+/**
+ * Analyze dependencies between the components of an assembled application.
+ *
+ * Every foreign key's `targetModel` is mapped to the component owning the
+ * table, building a dependency graph of the files. Files are expected to be
+ * numbered in the dependency order (`schema-{number}-{domain}.prisma`), so
+ * that cycles across the components and foreign keys referring to a
+ * later-numbered file are detected. Filenames without the number are ordered
+ * by the components list.
+ *
+ * @param props Assembled application and the whole components
+ * @returns Dependency graph, cycles, forward references and a renumbering
+ */
+export function analyzeDependencies(props: {
+  application: AutoBePrisma.IApplication;
+  components: AutoBePrisma.IComponent[];
+}): IDependencyAnalysis {
+  const owners: Map<string, AutoBePrisma.IComponent> = new Map(
+    props.components.map((c) => c.tables.map((t) => [t, c] as const)).flat()
+  );
+  const rank: Map<string, number> = new Map(
+    props.components.map((c, i) => [c.filename, getNumber(c.filename) ?? i])
+  );
+
+  // DEPENDENCY GRAPH
+  const graph: Map<string, Set<string>> = new Map(
+    props.components.map((c) => [c.filename, new Set()])
+  );
+  const forwardReferences: IDependencyAnalysis.IForwardReference[] = [];
+  for (const file of props.application.files)
+    file.models.forEach((model, i) =>
+      model.foreignFields.forEach((field, j) => {
+        const target: AutoBePrisma.IComponent | undefined = owners.get(
+          field.relation.targetModel
+        );
+        if (target === undefined || target.filename === file.filename) return;
+        graph.get(file.filename)?.add(target.filename);
+        if (rank.get(target.filename)! > rank.get(file.filename)!)
+          forwardReferences.push({
+            filename: file.filename,
+            path: `models[${i}].foreignFields[${j}].relation.targetModel`,
+            targetModel: field.relation.targetModel,
+            targetFilename: target.filename,
+          });
+      })
+    );
+  const cycles: string[][] = findCycles(graph);
+  return {
+    graph: Object.fromEntries(
+      Array.from(graph.entries()).map(([k, v]) => [k, Array.from(v)])
+    ),
+    cycles,
+    forwardReferences,
+    suggestion: renumber({
+      components: props.components,
+      graph,
+      cycles,
+      rank,
+    }),
+  };
+}
+
+function getNumber(filename: string): number | null {
+  const matched: RegExpMatchArray | null = filename.match(/^schema-(\d+)-/);
+  return matched !== null ? Number(matched[1]) : null;
+}
+
+/**
+ * Strongly connected components of more than one file, by Tarjan's
+ * algorithm.
+ */
+function findCycles(graph: Map<string, Set<string>>): string[][] {
+  const indexes: Map<string, number> = new Map();
+  const lowlinks: Map<string, number> = new Map();
+  const stack: string[] = [];
+  const output: string[][] = [];
+  const visit = (node: string): void => {
+    indexes.set(node, indexes.size);
+    lowlinks.set(node, indexes.get(node)!);
+    stack.push(node);
+    for (const next of graph.get(node) ?? []) {
+      if (indexes.has(next) === false) {
+        visit(next);
+        lowlinks.set(node, Math.min(lowlinks.get(node)!, lowlinks.get(next)!));
+      } else if (stack.includes(next))
+        lowlinks.set(node, Math.min(lowlinks.get(node)!, indexes.get(next)!));
+    }
+    if (lowlinks.get(node) !== indexes.get(node)) return;
+
+    const group: string[] = [];
+    while (true) {
+      const popped: string = stack.pop()!;
+      group.push(popped);
+      if (popped === node) break;
+    }
+    if (group.length > 1) output.push(group.reverse());
+  };
+  for (const node of graph.keys()) if (indexes.has(node) === false) visit(node);
+  return output;
+}
+
+/**
+ * Order the components topologically, preferring the original order, and
+ * reassign the numbers of the filenames in the new order.
+ */
+function renumber(props: {
+  components: AutoBePrisma.IComponent[];
+  graph: Map<string, Set<string>>;
+  cycles: string[][];
+  rank: Map<string, number>;
+}): AutoBePrisma.IComponent[] {
+  const original: AutoBePrisma.IComponent[] = props.components
+    .slice()
+    .sort((a, b) => props.rank.get(a.filename)! - props.rank.get(b.filename)!);
+  const ordered: AutoBePrisma.IComponent[] = [];
+  const remaining: AutoBePrisma.IComponent[] = original.slice();
+  while (remaining.length !== 0) {
+    // THE FIRST ONE WHOSE DEPENDENCIES ARE ALL ORDERED, OR BREAK THE CYCLE
+    const index: number = remaining.findIndex((c) =>
+      Array.from(props.graph.get(c.filename) ?? []).every((d) =>
+        ordered.some((o) => o.filename === d)
+      )
+    );
+    ordered.push(
+      ...remaining.splice(
+        index !== -1
+          ? index
+          : Math.max(
+              0,
+              remaining.findIndex((c) =>
+                props.cycles.some((cycle) => cycle.includes(c.filename))
+              )
+            ),
+        1
+      )
+    );
+  }
+
+  const numbers: string[] = original
+    .map((c) => c.filename.match(/^schema-(\d+)-/)?.[1])
+    .filter((n): n is string => n !== undefined);
+  let cursor: number = 0;
+  return ordered.map((c) =>
+    getNumber(c.filename) === null
+      ? c
+      : {
+          ...c,
+          filename: c.filename.replace(
+            /^schema-\d+-/,
+            `schema-${numbers[cursor++]}-`
+          ),
+        }
+  );
+}
@@ -0,0 +1,227 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IAnalyzeSection } from "./IAnalyzeSection";
+import { ITraceability } from "./ITraceability";
+import { splitAnalyze } from "./splitAnalyze";
+import { tokenize } from "./tokenize";
+
+/**
+ * Analyze the traceability of the models to the requirement analysis report.
+ *
+ * Descriptions of the models, their foreign fields and plain fields are mapped
+ * to the sections of the analysis documents (primary keys are surrogate, so
+ * implementing no requirement). A description refers to a section when it
+ * cites the document name or the heading (of multiple words, as a single word
+ * is too common to be a citation), or when their TF-IDF vectors are
+ * similar enough (cosine similarity of {@link THRESHOLD} or more, up to
+ * {@link LIMIT} sections). Descriptions without any reference are
+ * untraceable, and sections with content referenced by none of the
+ * descriptions are uncovered. Tables of contents are not regarded as
+ * requirements.
+ *
+ * @param props Requirement analysis report and the assembled application
+ * @returns Traceability of the descriptions and the uncovered sections
+ */
+export function analyzeTraceability(props: {
+  analyze: Record<string, string>;
+  application: AutoBePrisma.IApplication;
+}): ITraceability {
+  const sections: ISection[] = splitAnalyze(props.analyze)
+    .filter((s) => /table of contents/i.test(s.heading) === false)
+    .map((s) => ({
+      ...s,
+      title: s.heading
+        .replace(/^#+\s*/, "")
+        .replace(/^[\d.]+\s+/, "")
+        .trim()
+        .toLowerCase(),
+      words: tokenize(s.text, STOP_WORDS),
+    }));
+
+  // INVERSE DOCUMENT FREQUENCY OF THE SECTIONS
+  const frequencies: Map<string, number> = new Map();
+  for (const s of sections)
+    for (const word of new Set(s.words))
+      frequencies.set(word, (frequencies.get(word) ?? 0) + 1);
+  const idf = (word: string): number =>
+    Math.log((1 + sections.length) / (1 + (frequencies.get(word) ?? 0))) + 1;
+  const vectors: Map<ISection, Map<string, number>> = new Map(
+    sections.map((s) => [s, vectorize(s.words, idf)])
+  );
+
+  const descriptions: ITraceability.IDescription[] = props.application.files
+    .map((file) =>
+      file.models
+        .map((model, i) => [
+          {
+            model: model.name,
+            field: null,
+            path: `models[${i}].description`,
+            text: model.description,
+          },
+          ...model.foreignFields.map((f, j) => ({
+            model: model.name,
+            field: f.name,
+            path: `models[${i}].foreignFields[${j}].description`,
+            text: f.description,
+          })),
+          ...model.plainFields.map((f, j) => ({
+            model: model.name,
+            field: f.name,
+            path: `models[${i}].plainFields[${j}].description`,
+            text: f.description,
+          })),
+        ])
+        .flat()
+        .map((d) => ({
+          filename: file.filename,
+          model: d.model,
+          field: d.field,
+          path: d.path,
+          references: trace({
+            text: d.text,
+            sections,
+            vectors,
+            idf,
+          }),
+        }))
+    )
+    .flat();
+
+  const referred: Set<string> = new Set(
+    descriptions
+      .map((d) => d.references.map((r) => `${r.document}\n${r.index}`))
+      .flat()
+  );
+  return {
+    descriptions,
+    uncovered: sections
+      .filter(
+        (s) =>
+          tokenize(s.text.replace(s.heading, ""), STOP_WORDS).length >=
+            MINIMUM && referred.has(`${s.document}\n${s.index}`) === false
+      )
+      .map((s) => ({
+        document: s.document,
+        index: s.index,
+        heading: s.heading,
+      })),
+  };
+}
+
+/**
+ * Minimum cosine similarity to regard a section as referred.
+ */
+const THRESHOLD = 0.2;
+
+/**
+ * Maximum number of sections referred by the similarity.
+ */
+const LIMIT = 3;
+
+/**
+ * Minimum number of words for a section to be a requirement, excluding the
+ * headings without their own content.
+ */
+const MINIMUM = 8;
+
+interface ISection extends IAnalyzeSection {
+  title: string;
+  words: string[];
+}
+
+function trace(props: {
+  text: string;
+  sections: ISection[];
+  vectors: Map<ISection, Map<string, number>>;
+  idf: (word: string) => number;
+}): ITraceability.IReference[] {
+  const lower: string = props.text.toLowerCase();
+  const citations: ISection[] = props.sections.filter(
+    (s) =>
+      (s.title.includes(" ") && lower.includes(s.title)) ||
+      (s.index === 0 &&
+        lower.includes(s.document.replace(/\.md$/, "").toLowerCase()))
+  );
+  const vector: Map<string, number> = vectorize(
+    tokenize(props.text, STOP_WORDS),
+    props.idf
+  );
+  return [
+    ...citations.map((s) => ({
+      document: s.document,
+      index: s.index,
+      heading: s.heading,
+      kind: "citation" as const,
+      score: 1,
+    })),
+    ...props.sections
+      .filter((s) => citations.includes(s) === false)
+      .map((s) => ({
+        document: s.document,
+        index: s.index,
+        heading: s.heading,
+        kind: "similarity" as const,
+        score: cosine(vector, props.vectors.get(s)!),
+      }))
+      .filter((r) => r.score >= THRESHOLD)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, LIMIT),
+  ];
+}
+
+function vectorize(
+  words: string[],
+  idf: (word: string) => number
+): Map<string, number> {
+  const output: Map<string, number> = new Map();
+  for (const word of words) output.set(word, (output.get(word) ?? 0) + 1);
+  for (const [word, count] of output) output.set(word, count * idf(word));
+  return output;
+}
+
+function cosine(x: Map<string, number>, y: Map<string, number>): number {
+  let dot: number = 0;
+  for (const [word, value] of x) dot += value * (y.get(word) ?? 0);
+  const norm = (v: Map<string, number>): number =>
+    Math.sqrt(
+      Array.from(v.values())
+        .map((e) => e * e)
+        .reduce((a, b) => a + b, 0)
+    );
+  const denominator: number = norm(x) * norm(y);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+const STOP_WORDS: Set<string> = new Set([
+  "and",
+  "are",
+  "can",
+  "field",
+  "for",
+  "from",
+  "has",
+  "have",
+  "implement",
+  "implements",
+  "into",
+  "its",
+  "may",
+  "model",
+  "must",
+  "not",
+  "one",
+  "requirement",
+  "requirements",
+  "should",
+  "such",
+  "table",
+  "that",
+  "the",
+  "their",
+  "this",
+  "was",
+  "when",
+  "which",
+  "will",
+  "with",
+]);
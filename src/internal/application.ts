@@ -0,0 +1,24 @@
+import typia from "typia";
+
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+
+interface IApplication {
+  /**
+   * Generates comprehensive Prisma schema files based on detailed requirements
+   * analysis.
+   *
+   * Creates multiple organized schema files following enterprise patterns
+   * including proper domain separation, relationship modeling, snapshot
+   * patterns, inheritance, materialized views, and comprehensive documentation.
+   * The generated schemas implement best practices for scalability,
+   * maintainability, and data integrity.
+   *
+   * @param props Properties containing the file
+   */
+  make(props: IFunctionCallingResult): void;
+}
+
+/**
+ * Function calling application of the `make` function, composed by `typia`.
+ */
+export const APPLICATION = typia.llm.application<IApplication, "chatgpt">();
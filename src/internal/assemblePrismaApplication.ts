@@ -0,0 +1,30 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+
+/**
+ * Assemble the function calling results of each component into an
+ * {@link AutoBePrisma.IApplication}.
+ *
+ * Every result becomes an {@link AutoBePrisma.IFile} named after its
+ * component's `filename` and `namespace`. Files are ordered by the components
+ * list (dependency order), and components without any result (failed
+ * executions) are left out.
+ *
+ * @param props Components and the result generated for each of them
+ * @returns Application composed of the generated models
+ */
+export function assemblePrismaApplication(props: {
+  components: AutoBePrisma.IComponent[];
+  results: Map<AutoBePrisma.IComponent, IFunctionCallingResult>;
+}): AutoBePrisma.IApplication {
+  return {
+    files: props.components
+      .filter((c) => props.results.has(c))
+      .map((c) => ({
+        filename: c.filename,
+        namespace: c.namespace,
+        models: props.results.get(c)!.models as AutoBePrisma.IFile["models"],
+        enums: props.results.get(c)!.enums ?? [],
+      })),
+  };
+}
@@ -0,0 +1,138 @@
+import fs from "fs";
+import path from "path";
+
+import { analyzeDependencies } from "./analyzeDependencies";
+import { analyzeTraceability } from "./analyzeTraceability";
+import { assemblePrismaApplication } from "./assemblePrismaApplication";
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IComponentResult } from "./IComponentResult";
+import { IDependencyAnalysis } from "./IDependencyAnalysis";
+import { IExecuteConfig } from "./IExecuteConfig";
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+import { IPrismaValidationError } from "./IPrismaValidationError";
+import { IScenario } from "./IScenario";
+import { ITraceability } from "./ITraceability";
+import { RESULTS } from "./results";
+import { validatePrismaApplication } from "./validatePrismaApplication";
+import { writeDotDiagram } from "./writeDotDiagram";
+import { writeMermaidDiagram } from "./writeMermaidDiagram";
+import { writePrismaApplication } from "./writePrismaApplication";
+
+/**
+ * Assemble the generated models into an application, and validate the
+ * consistency across its files.
+ *
+ * Cross-file errors, including the violations of the dependency order, are
+ * appended to the `errors` of the component owning the file, and descriptions
+ * tracing no requirement are listed in its `untraced`. The whole application
+ * is written into `results/{name}/{scenario}/`.
+ */
+export async function assembleScenario(props: {
+  name: string;
+  config: IExecuteConfig;
+  label: (result: IComponentResult) => string;
+  scenario: IScenario;
+  generated: Map<AutoBePrisma.IComponent, IFunctionCallingResult>;
+  output: IComponentResult[];
+}): Promise<void> {
+  const application: AutoBePrisma.IApplication = assemblePrismaApplication({
+    components: props.scenario.components,
+    results: props.generated,
+  });
+  const dict: Record<string, IPrismaValidationError[]> =
+    validatePrismaApplication({
+      application,
+      components: props.scenario.components,
+    });
+  const dependencies: IDependencyAnalysis = analyzeDependencies({
+    application,
+    components: props.scenario.components,
+  });
+  for (const reference of dependencies.forwardReferences)
+    dict[reference.filename].push({
+      kind: "forwardDependency",
+      path: reference.path,
+      message: `Target model "${reference.targetModel}" belongs to the later-numbered file "${reference.targetFilename}".`,
+    });
+  for (const cycle of dependencies.cycles)
+    for (const filename of cycle)
+      dict[filename]?.push({
+        kind: "circularDependency",
+        path: "models",
+        message: `Files ${cycle
+          .map((f) => `"${f}"`)
+          .join(", ")} depend on each other circularly.`,
+      });
+  const traceability: ITraceability = analyzeTraceability({
+    analyze: props.scenario.analyze,
+    application,
+  });
+  for (const result of props.output) {
+    result.untraced = traceability.descriptions
+      .filter((d) => d.filename === result.filename)
+      .filter((d) => d.references.length === 0)
+      .map((d) => (d.field !== null ? `${d.model}.${d.field}` : d.model));
+    if (props.config.verbose && result.untraced.length !== 0)
+      console.log(props.label(result), "Untraced", result.untraced);
+
+    const errors: IPrismaValidationError[] = dict[result.filename] ?? [];
+    if (errors.length === 0) continue;
+    result.errors.push(...errors);
+    if (props.config.verbose)
+      console.log(props.label(result), "Inconsistent", errors);
+  }
+  if (props.config.verbose && traceability.uncovered.length !== 0)
+    console.log(
+      `(${props.scenario.name})`,
+      "Uncovered",
+      traceability.uncovered.map((s) => `${s.document} ${s.heading}`.trim())
+    );
+  const renamed: string[] = props.scenario.components
+    .map((c) => ({
+      from: c.filename,
+      to: dependencies.suggestion.find((s) => s.namespace === c.namespace)!
+        .filename,
+    }))
+    .filter((r) => r.from !== r.to)
+    .map((r) => `${r.from} -> ${r.to}`);
+  if (props.config.verbose && renamed.length !== 0)
+    console.log(`(${props.scenario.name})`, "Renumbering", renamed);
+  await archive({
+    name: path.join(props.name, props.scenario.name),
+    application,
+    components: props.scenario.components,
+    dependencies,
+    traceability,
+  });
+}
+
+/**
+ * Write the assembled application into `results/{name}/`, a `.prisma` file per
+ * {@link AutoBePrisma.IFile.filename}, with its ER diagrams `diagram.mmd`
+ * (Mermaid) and `diagram.dot` (Graphviz), the dependency analysis
+ * `dependencies.json` and the requirement traceability `traceability.json`.
+ */
+async function archive(props: {
+  name: string;
+  application: AutoBePrisma.IApplication;
+  components: AutoBePrisma.IComponent[];
+  dependencies: IDependencyAnalysis;
+  traceability: ITraceability;
+}): Promise<void> {
+  const directory: string = path.join(RESULTS, props.name);
+  await fs.promises.mkdir(directory, { recursive: true });
+
+  const files: Record<string, string> = {
+    ...writePrismaApplication(props.application),
+    "diagram.mmd": writeMermaidDiagram(props),
+    "diagram.dot": writeDotDiagram(props),
+    "dependencies.json": JSON.stringify(props.dependencies, null, 2),
+    "traceability.json": JSON.stringify(props.traceability, null, 2),
+  };
+  for (const [filename, content] of Object.entries(files))
+    await fs.promises.writeFile(
+      path.join(directory, filename),
+      content,
+      "utf8"
+    );
+}
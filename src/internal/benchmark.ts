@@ -0,0 +1,429 @@
+import { IBenchmarkResult } from "./IBenchmarkResult";
+import { IComponentResult } from "./IComponentResult";
+import { IExecuteConfig } from "./IExecuteConfig";
+import { IMatrixConfig } from "./IMatrixConfig";
+import { labelNamespace } from "./labelNamespace";
+import { mapConcurrently } from "./mapConcurrently";
+import { printTable } from "./printTable";
+
+/**
+ * Run each runner multiple times, and compute success statistics.
+ *
+ * Every trial executes all components of a runner, and trials of all runners
+ * are scheduled with bounded concurrency. Results of each trial are stored in
+ * `results/{runner}/trial-{n}/{scenario}/`.
+ *
+ * When system prompt variants are given, every runner is executed with each
+ * of them against the same fixtures, as a separate entry named
+ * `{runner}@{prompt}`. Context modes of the requirement analysis report are
+ * compared likewise, as entries suffixed by `#{context}`.
+ *
+ * When endpoints of the matrix are given, every runner is executed against
+ * every model of every endpoint, as entries prefixed by `{endpoint}/{model}/`.
+ *
+ * Entries rejected by the checks of their runners, like a prompt variant
+ * unsupported by the parallel mode, are not executed, but reported with the
+ * reason of the rejection.
+ *
+ * @param props Runners, their checks, prompt variants, context modes,
+ *   endpoints, number of trials and concurrency
+ * @returns Statistics per runner (prompt variant, context mode and model) and
+ *   namespace
+ */
+export async function benchmark(props: {
+  runners: Record<
+    string,
+    (
+      name: string,
+      options?: Partial<IExecuteConfig>
+    ) => Promise<IComponentResult[]>
+  >;
+  checks?: Record<
+    string,
+    (options?: Partial<IExecuteConfig>) => Promise<string | null>
+  >;
+  prompts?: string[];
+  contexts?: Array<IExecuteConfig["context"]>;
+  endpoints?: IMatrixConfig.IEndpoint[];
+  trials: number;
+  concurrency: number;
+  options?: Partial<IExecuteConfig>;
+}): Promise<IBenchmarkResult> {
+  const targets: Array<{
+    endpoint: IMatrixConfig.IEndpoint;
+    model: string;
+  } | null> = props.endpoints?.length
+    ? props.endpoints
+        .map((endpoint) =>
+          endpoint.models.map((model) => ({ endpoint, model }))
+        )
+        .flat()
+    : [null];
+  const entries: Array<{
+    name: string;
+    runner: string;
+    prompt: string | null;
+    context: IExecuteConfig["context"] | null;
+    endpoint: IMatrixConfig.IEndpoint | null;
+    model: string | null;
+  }> = targets
+    .map((target) =>
+      Object.keys(props.runners).map((runner) => ({
+        name:
+          target !== null
+            ? `${target.endpoint.name}/${target.model}/${runner}`
+            : runner,
+        runner,
+        endpoint: target?.endpoint ?? null,
+        model: target?.model ?? null,
+      }))
+    )
+    .flat()
+    .map((base) =>
+      (props.prompts?.length
+        ? props.prompts.map((prompt) => ({
+            ...base,
+            name: `${base.name}@${prompt}`,
+            prompt,
+          }))
+        : [{ ...base, prompt: null }]
+      ).map((entry) =>
+        props.contexts?.length
+          ? props.contexts.map((context) => ({
+              ...entry,
+              name: `${entry.name}#${context}`,
+              context,
+            }))
+          : [{ ...entry, context: null }]
+      )
+    )
+    .flat(2);
+  const configure = (
+    entry: (typeof entries)[number]
+  ): Partial<IExecuteConfig> => ({
+    ...props.options,
+    ...(entry.prompt !== null ? { prompt: entry.prompt } : {}),
+    ...(entry.context !== null ? { context: entry.context } : {}),
+    ...(entry.endpoint !== null
+      ? {
+          model: entry.model!,
+          baseURL: entry.endpoint.baseURL,
+          apiKey:
+            process.env[entry.endpoint.apiKeyEnv ?? "OPENAI_API_KEY"] ?? null,
+        }
+      : {}),
+    verbose: false,
+  });
+
+  // REJECT THE UNSUPPORTED ENTRIES BEFORE RUNNING
+  const unsupported: Map<string, string> = new Map();
+  for (const entry of entries) {
+    const reason: string | null =
+      (await props.checks?.[entry.runner]?.(configure(entry))) ?? null;
+    if (reason === null) continue;
+    unsupported.set(entry.name, reason);
+    console.error(entry.name, "unsupported", reason);
+  }
+  const schedule: Array<{
+    entry: (typeof entries)[number];
+    trial: number;
+  }> = entries
+    .filter((entry) => unsupported.has(entry.name) === false)
+    .map((entry) =>
+      new Array(props.trials).fill(0).map((_, i) => ({ entry, trial: i + 1 }))
+    )
+    .flat();
+  const executions: IComponentResult[][] = await mapConcurrently(
+    schedule,
+    props.concurrency,
+    async ({ entry, trial }) => {
+      const results: IComponentResult[] = await props.runners[entry.runner](
+        `${entry.name}/trial-${trial}`,
+        configure(entry)
+      );
+      console.error(
+        entry.name,
+        `#${trial}`,
+        `${results.filter((r) => r.success).length} / ${results.length}`
+      );
+      return results;
+    }
+  );
+  return {
+    trials: props.trials,
+    runners: entries.map(({ name, runner, prompt, context, ...entry }) => {
+      const mine: IComponentResult[][] = executions.filter(
+        (_, i) => schedule[i].entry.name === name
+      );
+      const flat: IComponentResult[] = mine.flat();
+      const label = labelNamespace(flat.map((r) => r.scenario));
+      return {
+        name,
+        runner,
+        prompt,
+        context,
+        endpoint: entry.endpoint?.name ?? null,
+        model: entry.model,
+        unsupported: unsupported.get(name) ?? null,
+        overall: computeStatistics(flat),
+        namespaces: Array.from(new Set(flat.map(label))).map((namespace) => ({
+          namespace,
+          ...computeStatistics(flat.filter((r) => label(r) === namespace)),
+        })),
+        executions: mine,
+      };
+    }),
+  };
+}
+
+/**
+ * Print the benchmark statistics as tables.
+ */
+export function printBenchmark(result: IBenchmarkResult): void {
+  const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+  for (const runner of result.runners) {
+    if (runner.unsupported !== null) {
+      console.log(`\n## ${runner.name} (unsupported)\n`);
+      console.log(runner.unsupported);
+      continue;
+    }
+    console.log(`\n## ${runner.name} (${result.trials} trials)\n`);
+    printTable(
+      [
+        "namespace",
+        "success",
+        "rate",
+        "95% CI",
+        "missing",
+        "extra",
+        "other",
+        "type",
+        "error",
+      ],
+      [...runner.namespaces, { namespace: "(overall)", ...runner.overall }].map(
+        (s) => [
+          s.namespace,
+          `${s.success} / ${s.count}`,
+          percent(s.rate),
+          `${percent(s.interval[0])} ~ ${percent(s.interval[1])}`,
+          String(s.failures.missingTable),
+          String(s.failures.extraTable),
+          String(s.failures.otherComponentTable),
+          String(s.failures.typeError),
+          String(s.failures.error),
+        ]
+      )
+    );
+  }
+  if (result.runners.some((r) => r.prompt !== null))
+    printPromptComparison(result);
+  if (result.runners.some((r) => r.context !== null))
+    printContextComparison(result);
+  if (result.runners.some((r) => r.endpoint !== null))
+    printMatrixComparison(result);
+}
+
+/**
+ * Print success rates of the prompt variants side by side, with the difference
+ * from the first variant of the same runner in percentage points.
+ */
+function printPromptComparison(result: IBenchmarkResult): void {
+  const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+  console.log(`\n## prompt variants (${result.trials} trials)\n`);
+  printTable(
+    ["runner", "prompt", "success", "rate", "95% CI", "diff"],
+    result.runners.map((r) => {
+      if (r.unsupported !== null)
+        return [qualify(r), r.prompt ?? "-", "-", "unsupported", "-", "-"];
+      const baseline: IBenchmarkResult.IRunner = result.runners.find(
+        (b) =>
+          b.runner === r.runner &&
+          b.context === r.context &&
+          b.endpoint === r.endpoint &&
+          b.model === r.model &&
+          b.unsupported === null
+      )!;
+      const diff: number = (r.overall.rate - baseline.overall.rate) * 100;
+      return [
+        qualify(r),
+        r.prompt ?? "-",
+        `${r.overall.success} / ${r.overall.count}`,
+        percent(r.overall.rate),
+        `${percent(r.overall.interval[0])} ~ ${percent(r.overall.interval[1])}`,
+        baseline === r ? "-" : `${diff >= 0 ? "+" : ""}${diff.toFixed(1)}pp`,
+      ];
+    })
+  );
+}
+
+/**
+ * Print success rates and average prompt tokens of the context modes side by
+ * side, with the differences from the first mode of the same runner and
+ * prompt variant.
+ */
+function printContextComparison(result: IBenchmarkResult): void {
+  const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+  const tokens = (runner: IBenchmarkResult.IRunner): number => {
+    const flat: IComponentResult[] = runner.executions.flat();
+    return flat.length === 0
+      ? 0
+      : flat.map((r) => r.tokens.prompt).reduce((x, y) => x + y, 0) /
+          flat.length;
+  };
+  console.log(`\n## context modes (${result.trials} trials)\n`);
+  printTable(
+    [
+      "runner",
+      "prompt",
+      "context",
+      "success",
+      "rate",
+      "diff",
+      "prompt tokens",
+      "diff",
+    ],
+    result.runners.map((r) => {
+      if (r.unsupported !== null)
+        return [
+          qualify(r),
+          r.prompt ?? "-",
+          r.context ?? "-",
+          "-",
+          "unsupported",
+          "-",
+          "-",
+          "-",
+        ];
+      const baseline: IBenchmarkResult.IRunner = result.runners.find(
+        (b) =>
+          b.runner === r.runner &&
+          b.prompt === r.prompt &&
+          b.endpoint === r.endpoint &&
+          b.model === r.model &&
+          b.unsupported === null
+      )!;
+      const diff: number = (r.overall.rate - baseline.overall.rate) * 100;
+      const ratio: number =
+        tokens(baseline) === 0 ? 0 : tokens(r) / tokens(baseline) - 1;
+      return [
+        qualify(r),
+        r.prompt ?? "-",
+        r.context ?? "-",
+        `${r.overall.success} / ${r.overall.count}`,
+        percent(r.overall.rate),
+        baseline === r ? "-" : `${diff >= 0 ? "+" : ""}${diff.toFixed(1)}pp`,
+        Math.round(tokens(r)).toLocaleString("en-US"),
+        baseline === r ? "-" : `${ratio >= 0 ? "+" : ""}${percent(ratio)}`,
+      ];
+    })
+  );
+}
+
+/**
+ * Print success rates, average tokens, average latency and total cost of the
+ * runners against each model of the matrix side by side.
+ */
+function printMatrixComparison(result: IBenchmarkResult): void {
+  const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+  const average = (values: number[]): number =>
+    values.length === 0 ? 0 : values.reduce((x, y) => x + y, 0) / values.length;
+  console.log(`\n## model matrix (${result.trials} trials)\n`);
+  printTable(
+    [
+      "endpoint",
+      "model",
+      "runner",
+      "success",
+      "rate",
+      "95% CI",
+      "tokens",
+      "latency",
+      "cost",
+    ],
+    result.runners.map((r) => {
+      const flat: IComponentResult[] = r.executions.flat();
+      const name: string =
+        r.endpoint !== null
+          ? r.name.slice(`${r.endpoint}/${r.model}/`.length)
+          : r.name;
+      if (r.unsupported !== null)
+        return [
+          r.endpoint ?? "-",
+          r.model ?? "-",
+          name,
+          "-",
+          "unsupported",
+          "-",
+          "-",
+          "-",
+          "-",
+        ];
+      return [
+        r.endpoint ?? "-",
+        r.model ?? "-",
+        name,
+        `${r.overall.success} / ${r.overall.count}`,
+        percent(r.overall.rate),
+        `${percent(r.overall.interval[0])} ~ ${percent(r.overall.interval[1])}`,
+        Math.round(average(flat.map((c) => c.tokens.total))).toLocaleString(
+          "en-US"
+        ),
+        `${Math.round(average(flat.map((c) => c.latency)))}ms`,
+        flat.some((c) => c.cost === null)
+          ? "-"
+          : `$${flat
+              .map((c) => c.cost!.total)
+              .reduce((x, y) => x + y, 0)
+              .toFixed(4)}`,
+      ];
+    })
+  );
+}
+
+/**
+ * Runner qualified by the endpoint and model of the matrix.
+ */
+function qualify(runner: IBenchmarkResult.IRunner): string {
+  return runner.endpoint !== null
+    ? `${runner.endpoint}/${runner.model}/${runner.runner}`
+    : runner.runner;
+}
+
+function computeStatistics(
+  results: IComponentResult[]
+): IBenchmarkResult.IStatistics {
+  const count: number = results.length;
+  const success: number = results.filter((r) => r.success).length;
+  return {
+    count,
+    success,
+    rate: count === 0 ? 0 : success / count,
+    interval: wilson(success, count),
+    failures: {
+      missingTable: results.filter((r) => r.missing.length !== 0).length,
+      extraTable: results.filter(
+        (r) => r.extra.length > r.otherComponentTables.length
+      ).length,
+      otherComponentTable: results.filter(
+        (r) => r.otherComponentTables.length !== 0
+      ).length,
+      typeError: results.filter((r) => r.typeErrors.length !== 0).length,
+      error: results.filter((r) => r.error !== null).length,
+    },
+  };
+}
+
+/**
+ * Wilson score interval of a binomial proportion, at 95% confidence.
+ */
+function wilson(success: number, count: number): [number, number] {
+  if (count === 0) return [0, 1];
+  const z: number = 1.96;
+  const p: number = success / count;
+  const denominator: number = 1 + (z * z) / count;
+  const center: number = (p + (z * z) / (2 * count)) / denominator;
+  const margin: number =
+    (z * Math.sqrt((p * (1 - p)) / count + (z * z) / (4 * count * count))) /
+    denominator;
+  return [Math.max(0, center - margin), Math.min(1, center + margin)];
+}
@@ -0,0 +1,39 @@
+import { IComponentResult } from "./IComponentResult";
+import { IModelPrice } from "./IModelPrice";
+
+/**
+ * Compute the cost of token usage in USD.
+ *
+ * The price is looked up by the exact model name, or by the longest name
+ * prefixing it, so that dated snapshots like `gpt-4.1-2025-04-14` are priced
+ * as `gpt-4.1`.
+ *
+ * @param props Model, token usage and price table
+ * @returns Cost in USD, or `null` if the model is not in the price table
+ */
+export function computeCost(props: {
+  model: string;
+  tokens: IComponentResult.ITokens;
+  prices: Record<string, IModelPrice>;
+}): IComponentResult.ICost | null {
+  const key: string | undefined =
+    props.prices[props.model] !== undefined
+      ? props.model
+      : Object.keys(props.prices)
+          .filter((k) => props.model.startsWith(`${k}-`))
+          .sort((a, b) => b.length - a.length)[0];
+  if (key === undefined) return null;
+
+  const price: IModelPrice = props.prices[key];
+  const prompt: number =
+    ((props.tokens.prompt - props.tokens.cached) * price.input) / 1_000_000;
+  const cached: number = (props.tokens.cached * price.cachedInput) / 1_000_000;
+  const completion: number =
+    (props.tokens.completion * price.output) / 1_000_000;
+  return {
+    prompt,
+    cached,
+    completion,
+    total: prompt + cached + completion,
+  };
+}
@@ -0,0 +1,60 @@
+import OpenAI from "openai";
+
+import { createCassette } from "./createCassette";
+import { createRetryFetch } from "./createRetryFetch";
+import { createTrace } from "./createTrace";
+import { createUsageFetch } from "./createUsageFetch";
+import { IExecuteConfig } from "./IExecuteConfig";
+import { RESULTS } from "./results";
+
+/**
+ * Create an OpenAI client whose API calls are retried, recorded or replayed,
+ * traced, and whose token usages are collected.
+ */
+export async function createApi(props: {
+  name: string;
+  namespace: string;
+  config: IExecuteConfig;
+}) {
+  const { config } = props;
+  const retry = createRetryFetch({
+    fetch: globalThis.fetch,
+    retries: config.retries,
+    onRetry: (next) => {
+      if (config.verbose)
+        console.log(
+          props.namespace,
+          "Retry",
+          `(${next.reason}, #${next.attempt} after ${Math.round(next.delay)}ms)`
+        );
+    },
+  });
+  const cassette = config.cassette
+    ? await createCassette({
+        mode: config.cassette,
+        directory: config.cassetteDirectory,
+        runner: props.name,
+        namespace: props.namespace,
+        fetch: retry,
+      })
+    : null;
+  const trace = config.trace
+    ? createTrace({
+        directory: RESULTS,
+        runner: props.name,
+        namespace: props.namespace,
+        fetch: cassette?.fetch ?? retry,
+      })
+    : null;
+  const usage = createUsageFetch({
+    fetch: trace?.fetch ?? cassette?.fetch ?? retry,
+  });
+  const api = new OpenAI({
+    apiKey:
+      config.apiKey ?? (config.cassette === "replay" ? "replay" : undefined),
+    baseURL: config.baseURL,
+    fetch: usage.fetch,
+    maxRetries: 0,
+  });
+  return { api, cassette, trace, usage };
+}
@@ -0,0 +1,107 @@
+import fs from "fs";
+import { ClientOptions } from "openai";
+import path from "path";
+
+import { ICassette } from "./ICassette";
+
+/**
+ * Create a cassette recording or replaying the LLM traffic of a component.
+ *
+ * The returned `fetch` function must be given to the `OpenAI` client. As both
+ * the raw `api.chat.completions.create` calls and the internal requests of
+ * `MicroAgentica` pass through it, full request bodies and responses
+ * (including streams) of every runner are captured in the same way.
+ *
+ * - `record`: call the API, and keep every interaction. Call `save()` after
+ *   the task to write the cassette file.
+ * - `replay`: serve the recorded interactions in order, without calling the
+ *   API. Throws an error when the recording is exhausted.
+ *
+ * @param props Mode, cassette file location and its identifiers
+ * @returns Fetch function and saver
+ */
+export async function createCassette(props: {
+  mode: "record" | "replay";
+  directory: string;
+  runner: string;
+  namespace: string;
+  fetch?: NonNullable<ClientOptions["fetch"]>;
+}): Promise<{
+  fetch: NonNullable<ClientOptions["fetch"]>;
+  save: () => Promise<void>;
+}> {
+  const location: string = path.join(
+    props.directory,
+    props.runner,
+    `${props.namespace}.json`
+  );
+  const cassette: ICassette =
+    props.mode === "replay"
+      ? JSON.parse(await fs.promises.readFile(location, "utf8"))
+      : {
+          runner: props.runner,
+          namespace: props.namespace,
+          interactions: [],
+        };
+  let cursor: number = 0;
+
+  const fetch: NonNullable<ClientOptions["fetch"]> = async (input, init) => {
+    const request: ICassette.IRequest = {
+      method: init?.method ?? "GET",
+      url: input instanceof Request ? input.url : input.toString(),
+      body: parseBody(init?.body),
+    };
+    if (props.mode === "replay") {
+      const interaction: ICassette.IInteraction | undefined =
+        cassette.interactions[cursor++];
+      if (interaction === undefined)
+        throw new Error(
+          `Cassette "${location}" has been exhausted: no more than ${cassette.interactions.length} interactions are recorded.`
+        );
+      return new Response(interaction.response.body, {
+        status: interaction.response.status,
+        headers: interaction.response.headers,
+      });
+    }
+
+    const response: Response = await (props.fetch ?? globalThis.fetch)(
+      input,
+      init
+    );
+    const body: string = await response.text();
+    cassette.interactions.push({
+      request,
+      response: {
+        status: response.status,
+        headers: Object.fromEntries(response.headers.entries()),
+        body,
+      },
+    });
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+  return {
+    fetch,
+    save: async () => {
+      if (props.mode !== "record") return;
+      await fs.promises.mkdir(path.dirname(location), { recursive: true });
+      await fs.promises.writeFile(
+        location,
+        JSON.stringify(cassette, null, 2),
+        "utf8"
+      );
+    },
+  };
+}
+
+function parseBody(body: unknown): unknown {
+  if (typeof body !== "string") return body ?? null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
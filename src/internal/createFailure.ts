@@ -0,0 +1,43 @@
+import { accountCalls } from "./accountCalls";
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IComponentResult } from "./IComponentResult";
+import { IExecuteConfig } from "./IExecuteConfig";
+import { IModelPrice } from "./IModelPrice";
+import { IScenario } from "./IScenario";
+
+export function createFailure(props: {
+  scenario: IScenario;
+  component: AutoBePrisma.IComponent;
+  config: IExecuteConfig;
+  prices: Record<string, IModelPrice>;
+  latency: number;
+  error: string;
+}): IComponentResult {
+  return {
+    scenario: props.scenario.name,
+    namespace: props.component.namespace,
+    filename: props.component.filename,
+    model: props.config.model,
+    prompt: props.config.prompt,
+    context: props.config.context,
+    success: false,
+    expected: props.component.tables.slice().sort(),
+    actual: [],
+    missing: [],
+    extra: [],
+    otherComponentTables: [],
+    chain: null,
+    typeErrors: [],
+    errors: [],
+    lint: [],
+    untraced: [],
+    attempts: 0,
+    latency: props.latency,
+    ...accountCalls({
+      model: props.config.model,
+      prices: props.prices,
+      calls: [],
+    }),
+    error: props.error,
+  };
+}
@@ -0,0 +1,61 @@
+import { ClientOptions } from "openai";
+
+/**
+ * Wrap a fetch function with retries of exponential backoff and jitter.
+ *
+ * Retries rate limits (429), server errors (5xx) and network failures. When
+ * the response has `retry-after-ms` or `Retry-After` headers, their delay is
+ * honoured instead of the computed backoff, capped by the maximum delay.
+ *
+ * @param props Underlying fetch function and retry policy
+ * @returns Fetch function with retries
+ */
+export function createRetryFetch(props: {
+  fetch: NonNullable<ClientOptions["fetch"]>;
+  retries: number;
+  minDelay?: number;
+  maxDelay?: number;
+  onRetry?: (next: { attempt: number; delay: number; reason: string }) => void;
+}): NonNullable<ClientOptions["fetch"]> {
+  const minDelay: number = props.minDelay ?? 1_000;
+  const maxDelay: number = props.maxDelay ?? 60_000;
+  return async (input, init) => {
+    for (let attempt: number = 0; ; ++attempt) {
+      let response: Response | null = null;
+      let reason: string;
+      try {
+        response = await props.fetch(input, init);
+        if (response.status !== 429 && response.status < 500) return response;
+        reason = `HTTP ${response.status}`;
+      } catch (exp) {
+        if (init?.signal?.aborted === true) throw exp;
+        if (attempt >= props.retries) throw exp;
+        reason = exp instanceof Error ? exp.message : String(exp);
+      }
+      if (attempt >= props.retries) return response!;
+
+      // EXPONENTIAL BACKOFF WITH FULL JITTER, UNLESS THE SERVER SAYS
+      const retryAfter: number | null =
+        response !== null ? getRetryAfter(response.headers) : null;
+      const delay: number =
+        retryAfter !== null
+          ? Math.min(retryAfter, maxDelay)
+          : Math.random() * Math.min(maxDelay, minDelay * 2 ** attempt);
+      props.onRetry?.({ attempt: attempt + 1, delay, reason });
+      await response?.body?.cancel().catch(() => {});
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  };
+}
+
+function getRetryAfter(headers: Headers): number | null {
+  const ms: string | null = headers.get("retry-after-ms");
+  if (ms !== null && Number.isFinite(Number(ms))) return Number(ms);
+
+  const value: string | null = headers.get("retry-after");
+  if (value === null) return null;
+  if (Number.isFinite(Number(value))) return Number(value) * 1_000;
+
+  const date: number = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,167 @@
+import fs from "fs";
+import { ClientOptions } from "openai";
+import path from "path";
+
+import { ITrace } from "./ITrace";
+
+/**
+ * Create a trace of a component's execution.
+ *
+ * The returned `fetch` function must be given to the `OpenAI` client, so that
+ * every API call is recorded as `request` and `response` events (or `error`
+ * when the call has failed). Responses of streaming requests are joined into
+ * the message they compose. Other events are recorded by `record()`, and
+ * `save()` writes the trace file after the responses have been read.
+ *
+ * @param props Trace file location, its identifiers and the underlying fetch
+ * @returns Fetch function, recorder and saver
+ */
+export function createTrace(props: {
+  directory: string;
+  runner: string;
+  namespace: string;
+  fetch: NonNullable<ClientOptions["fetch"]>;
+}): {
+  fetch: NonNullable<ClientOptions["fetch"]>;
+  record: (event: Pick<ITrace.IEvent, "source" | "type" | "data">) => void;
+  save: () => Promise<void>;
+} {
+  const location: string = path.join(
+    props.directory,
+    props.runner,
+    "traces",
+    `${props.namespace}.json`
+  );
+  const started: Date = new Date();
+  const trace: ITrace = {
+    runner: props.runner,
+    namespace: props.namespace,
+    started_at: started.toISOString(),
+    events: [],
+  };
+  const pending: Promise<void>[] = [];
+
+  const record = (
+    event: Pick<ITrace.IEvent, "source" | "type" | "data">
+  ): void => {
+    const now: Date = new Date();
+    trace.events.push({
+      sequence: trace.events.length,
+      ...event,
+      created_at: now.toISOString(),
+      elapsed: now.getTime() - started.getTime(),
+    });
+  };
+  return {
+    fetch: async (input, init) => {
+      record({
+        source: "http",
+        type: "request",
+        data: {
+          method: init?.method ?? "GET",
+          url: input instanceof Request ? input.url : input.toString(),
+          body: parseBody(init?.body),
+        },
+      });
+      try {
+        const response: Response = await props.fetch(input, init);
+        pending.push(
+          readResponse(response.clone()).then((body) =>
+            record({
+              source: "http",
+              type: "response",
+              data: {
+                status: response.status,
+                body,
+              },
+            })
+          )
+        );
+        return response;
+      } catch (exp) {
+        record({
+          source: "http",
+          type: "error",
+          data: {
+            message: exp instanceof Error ? exp.message : String(exp),
+          },
+        });
+        throw exp;
+      }
+    },
+    record,
+    save: async () => {
+      await Promise.all(pending);
+      await fs.promises.mkdir(path.dirname(location), { recursive: true });
+      await fs.promises.writeFile(
+        location,
+        JSON.stringify(trace, null, 2),
+        "utf8"
+      );
+    },
+  };
+}
+
+function parseBody(body: unknown): unknown {
+  if (typeof body !== "string") return body ?? null;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Read the response body, joining the chunks of the `text/event-stream` into
+ * the content, tool calls, finish reason and usage they compose.
+ */
+async function readResponse(response: Response): Promise<unknown> {
+  try {
+    const text: string = await response.text();
+    if (
+      response.headers.get("content-type")?.includes("text/event-stream") !==
+      true
+    )
+      return parseBody(text);
+
+    let content: string | null = null;
+    let finish_reason: string | null = null;
+    let usage: unknown = null;
+    const calls: Array<{
+      id: string | null;
+      name: string;
+      arguments: string;
+    }> = [];
+    for (const line of text.split("\n")) {
+      if (line.startsWith("data:") === false) continue;
+      const data: string = line.slice(5).trim();
+      if (data === "[DONE]") continue;
+      try {
+        const chunk = JSON.parse(data);
+        usage = chunk.usage ?? usage;
+        for (const choice of chunk.choices ?? []) {
+          finish_reason = choice.finish_reason ?? finish_reason;
+          if (typeof choice.delta?.content === "string")
+            content = (content ?? "") + choice.delta.content;
+          for (const call of choice.delta?.tool_calls ?? []) {
+            calls[call.index] ??= { id: null, name: "", arguments: "" };
+            calls[call.index].id = call.id ?? calls[call.index].id;
+            calls[call.index].name += call.function?.name ?? "";
+            calls[call.index].arguments += call.function?.arguments ?? "";
+          }
+        }
+      } catch {}
+    }
+    return {
+      stream: true,
+      content,
+      tool_calls: calls,
+      finish_reason,
+      usage,
+    };
+  } catch (exp) {
+    return {
+      error: exp instanceof Error ? exp.message : String(exp),
+    };
+  }
+}
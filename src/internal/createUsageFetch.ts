@@ -0,0 +1,71 @@
+import OpenAI, { ClientOptions } from "openai";
+
+/**
+ * Wrap a fetch function collecting token usages and latencies of the chat
+ * completions.
+ *
+ * Usages are read from a clone of every response, from both regular JSON
+ * bodies and `text/event-stream` bodies of streaming requests (which report
+ * the usage only when `stream_options.include_usage` is enabled). The latency
+ * of a call is measured until its body has been read completely.
+ *
+ * @param props Underlying fetch function
+ * @returns Fetch function and joiner of the collected calls
+ */
+export function createUsageFetch(props: {
+  fetch: NonNullable<ClientOptions["fetch"]>;
+}): {
+  fetch: NonNullable<ClientOptions["fetch"]>;
+  join: () => Promise<
+    Array<{
+      usage: OpenAI.CompletionUsage | null;
+      latency: number;
+    }>
+  >;
+} {
+  const pending: Promise<{
+    usage: OpenAI.CompletionUsage | null;
+    latency: number;
+  }>[] = [];
+  return {
+    fetch: async (input, init) => {
+      const started: number = Date.now();
+      const response: Response = await props.fetch(input, init);
+      if (response.ok)
+        pending.push(
+          readUsage(response.clone()).then((usage) => ({
+            usage,
+            latency: Date.now() - started,
+          }))
+        );
+      return response;
+    },
+    join: () => Promise.all(pending),
+  };
+}
+
+async function readUsage(
+  response: Response
+): Promise<OpenAI.CompletionUsage | null> {
+  try {
+    const text: string = await response.text();
+    if (
+      response.headers.get("content-type")?.includes("text/event-stream") !==
+      true
+    )
+      return JSON.parse(text).usage ?? null;
+
+    let usage: OpenAI.CompletionUsage | null = null;
+    for (const line of text.split("\n")) {
+      if (line.startsWith("data:") === false) continue;
+      const data: string = line.slice(5).trim();
+      if (data === "[DONE]") continue;
+      try {
+        usage = JSON.parse(data).usage ?? usage;
+      } catch {}
+    }
+    return usage;
+  } catch {
+    return null;
+  }
+}
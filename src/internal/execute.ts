@@ -1,70 +1,204 @@
-import { ILlmApplication } from "@samchon/openapi";
 import "dotenv/config";
-import OpenAI from "openai";
-import typia from "typia";
-import { AutoBePrisma } from "./AutoBePrisma";
 
-import analyzeJson from "./analyze.json";
-import componentsJson from "./components.json";
+import { accountCalls, toCalls } from "./accountCalls";
+import { APPLICATION } from "./application";
+import { assembleScenario } from "./assembleScenario";
+import { AutoBePrisma } from "./AutoBePrisma";
+import { createApi } from "./createApi";
+import { createFailure } from "./createFailure";
+import { IComponentResult } from "./IComponentResult";
+import { IExecuteConfig } from "./IExecuteConfig";
 import { IFunctionCallingResult } from "./IFunctionCallingResult";
+import { IInspection } from "./IInspection";
+import { ILintRule } from "./ILintRule";
+import { IModelPrice } from "./IModelPrice";
+import { inspectResult } from "./inspectResult";
+import { IScenario } from "./IScenario";
+import { ITaskProps } from "./ITaskProps";
+import { mapConcurrently } from "./mapConcurrently";
+import { prepareExecution } from "./prepareExecution";
+import { printComponentResult } from "./printComponentResult";
+import { renderPrompt } from "./renderPrompt";
+import { selectAnalyze } from "./selectAnalyze";
+import { writeFeedback } from "./writeFeedback";
 
+/**
+ * Execute a runner's task for every component of the scenarios, and report
+ * the results.
+ *
+ * @param name Name of the execution, used for the results directory
+ * @param task Task generating models of a component
+ * @param options Execution configuration
+ * @returns Result of each component
+ */
 export async function execute(
-  task: (
-    api: OpenAI,
-    application: ILlmApplication<"chatgpt">,
-    systemPrompt: string,
-    analyze: Record<string, string>,
-    targetComponent: AutoBePrisma.IComponent,
-    otherComponents: AutoBePrisma.IComponent[]
-  ) => Promise<IFunctionCallingResult>
-) {
-  const components: AutoBePrisma.IComponent[] = componentsJson as any;
+  name: string,
+  task: (props: ITaskProps) => Promise<IFunctionCallingResult>,
+  options: Partial<IExecuteConfig> = {}
+): Promise<IComponentResult[]> {
+  const { config, fixtures, prices, lint, template, label } =
+    await prepareExecution(options);
+  const generated: Map<AutoBePrisma.IComponent, IFunctionCallingResult> =
+    new Map();
+  const output: IComponentResult[] = await mapConcurrently(
+    fixtures
+      .map(({ scenario, targets }) =>
+        targets.map((comp) => ({ scenario, comp }))
+      )
+      .flat(),
+    config.concurrency,
+    async ({ scenario, comp }) => {
+      const started: number = Date.now();
+      const output: IComponentResult = await executeComponent({
+        name,
+        task,
+        config,
+        prices,
+        lint,
+        template,
+        scenario,
+        targetComponent: comp,
+        otherComponents: scenario.components.filter((c) => c !== comp),
+      })
+        .then((next) => {
+          if (next.output.typeErrors.length === 0)
+            generated.set(comp, next.result);
+          return next.output;
+        })
+        .catch((exp) =>
+          createFailure({
+            scenario,
+            component: comp,
+            config,
+            prices,
+            latency: Date.now() - started,
+            error: exp instanceof Error ? exp.message : String(exp),
+          })
+        );
+      if (config.verbose) printComponentResult(output, config, label);
+      return output;
+    }
+  );
+  for (const { scenario } of fixtures)
+    await assembleScenario({
+      name,
+      config,
+      label,
+      scenario,
+      generated,
+      output: output.filter((r) => r.scenario === scenario.name),
+    });
+  return output;
+}
 
-  const api = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
+async function executeComponent(props: {
+  name: string;
+  task: (props: ITaskProps) => Promise<IFunctionCallingResult>;
+  config: IExecuteConfig;
+  prices: Record<string, IModelPrice>;
+  lint: Record<string, ILintRule.Severity | "off">;
+  template: string;
+  scenario: IScenario;
+  targetComponent: AutoBePrisma.IComponent;
+  otherComponents: AutoBePrisma.IComponent[];
+}): Promise<{
+  output: IComponentResult;
+  result: IFunctionCallingResult;
+}> {
+  const { config, targetComponent: comp, otherComponents } = props;
+  const started: number = Date.now();
+  const { api, usage, cassette, trace } = await createApi({
+    name: props.name,
+    namespace: `${props.scenario.name}/${comp.namespace}`,
+    config,
   });
-  await Promise.all(
-    components.map(async (comp) => {
-      const otherComponents = components.filter((c) => c !== comp);
-      const result: IFunctionCallingResult = await task(
-        api,
-        application,
-        systemPrompt,
-        analyzeJson,
-        comp,
-        otherComponents
-      );
-      const expected: string[] = comp.tables.slice().sort();
-      const actual: string[] = result.models.map((m) => m.name).sort();
-      if (
-        expected.length === actual.length &&
-        expected.every((v, i) => v === actual[i])
-      )
-        console.log(comp.namespace, "Success");
-      else
-        console.log(comp.namespace, "Different", {
-          expected: expected.join(", "),
-          actual: actual.join(", "),
+
+  let attempts: number = 0;
+  const review = (result: IFunctionCallingResult): string | null => {
+    if (++attempts >= config.attempts) return null;
+    const inspection: IInspection = inspectResult(
+      comp,
+      otherComponents,
+      result,
+      props.lint
+    );
+    return inspection.success &&
+      inspection.typeErrors.length === 0 &&
+      inspection.errors.length === 0 &&
+      inspection.lint.every((v) => v.severity !== "error")
+      ? null
+      : writeFeedback(inspection);
+  };
+  const result: IFunctionCallingResult = await props
+    .task({
+      api,
+      application: APPLICATION,
+      systemPrompt: renderPrompt(props.template, {
+        filename: comp.filename,
+        namespace: comp.namespace,
+        tables: comp.tables.map((t) => `- ${t}`).join("\n"),
+        tableCount: String(comp.tables.length),
+        otherTables: otherComponents
+          .map((c) => c.tables.map((t) => `- ${t} (${c.namespace})`))
+          .flat()
+          .join("\n"),
+      }),
+      model: config.model,
+      analyze: selectAnalyze({
+        config,
+        scenario: props.scenario,
+        targets: [comp],
+      }),
+      targetComponent: comp,
+      otherComponents,
+      review: (result) => {
+        const feedback: string | null = review(result);
+        trace?.record({
+          source: "runner",
+          type: "review",
+          data: {
+            attempt: attempts,
+            feedback,
+          },
         });
+        return feedback;
+      },
+      trace: (event) => trace?.record(event),
     })
-  );
-}
+    .catch(async (exp) => {
+      trace?.record({
+        source: "runner",
+        type: "error",
+        data: {
+          message: exp instanceof Error ? exp.message : String(exp),
+        },
+      });
+      await trace?.save();
+      throw exp;
+    });
+  const latency: number = Date.now() - started;
+  await cassette?.save();
+  await trace?.save();
 
-interface IApplication {
-  /**
-   * Generates comprehensive Prisma schema files based on detailed requirements
-   * analysis.
-   *
-   * Creates multiple organized schema files following enterprise patterns
-   * including proper domain separation, relationship modeling, snapshot
-   * patterns, inheritance, materialized views, and comprehensive documentation.
-   * The generated schemas implement best practices for scalability,
-   * maintainability, and data integrity.
-   *
-   * @param props Properties containing the file
-   */
-  make(props: IFunctionCallingResult): void;
+  return {
+    output: {
+      scenario: props.scenario.name,
+      namespace: comp.namespace,
+      filename: comp.filename,
+      model: config.model,
+      prompt: config.prompt,
+      context: config.context,
+      ...inspectResult(comp, otherComponents, result, props.lint),
+      untraced: [],
+      attempts,
+      latency,
+      ...accountCalls({
+        model: config.model,
+        prices: props.prices,
+        calls: toCalls(await usage.join()),
+      }),
+      error: null,
+    },
+    result,
+  };
 }
-const application = typia.llm.application<IApplication, "chatgpt">();
-const systemPrompt =
-  '# Enhanced Prisma Schema Expert System Prompt\n\n## 🎯 YOUR PRIMARY MISSION\n\n### WHAT YOU MUST DO (ONLY THIS!)\n\n**STEP 1: EXTRACT YOUR ASSIGNMENT**\n```\nYour Job: targetComponent.tables = [...]\nYour File: targetComponent.filename = "..."\nYour Domain: targetComponent.namespace = "..."\n```\n\n**STEP 2: CREATE EXACTLY THESE TABLES**\n- Create ALL tables from `targetComponent.tables` \n- Use EXACT table names as provided (NO CHANGES)\n- This is your COMPLETE and ONLY specification\n- Count: `targetComponent.tables.length` models required\n\n**STEP 3: SUCCESS CRITERIA**\n✅ Every table from `targetComponent.tables` exists in your output\n✅ Total model count = `targetComponent.tables.length` (plus junction tables if needed)\n✅ All model names match `targetComponent.tables` entries exactly\n\n---\n\n## 🚧 REFERENCE INFORMATION (FOR RELATIONSHIPS ONLY)\n\n### Other Existing Tables (ALREADY CREATED - DO NOT CREATE)\n- `otherComponents[]` lists tables that are **ALREADY CREATED** in other files\n- These tables are **ALREADY IMPLEMENTED** by other developers/processes\n- These tables **ALREADY EXIST** in the database system\n- Use these ONLY for foreign key relationships\n- Example: `shopping_customer_id` → references already existing `shopping_customers` table\n\n---\n\n## Core Expert Identity\n\nYou are a world-class Prisma database schema expert specializing in snapshot-based architecture and temporal data modeling. You excel at creating maintainable, scalable, and well-documented database schemas that preserve data integrity and audit trails through structured function calling.\n\n### Core Principles\n\n- **Focus on assigned tables** - Create exactly what `targetComponent.tables` specifies\n- **Output structured function call** - Use AutoBePrisma namespace types for precise schema definition\n- **Follow snapshot-based architecture** - Design for historical data preservation and audit trails  \n- **Prioritize data integrity** - Ensure referential integrity and proper constraints\n- **CRITICAL: Prevent all duplications** - Always review and verify no duplicate fields, relations, or models exist\n- **STRICT NORMALIZATION** - Follow database normalization principles rigorously (1NF, 2NF, 3NF minimum)\n- **DENORMALIZATION ONLY IN MATERIALIZED VIEWS** - Any denormalization must be implemented in `mv_` prefixed tables\n- **NEVER PRE-CALCULATE IN REGULAR TABLES** - Absolutely prohibit computed/calculated fields in regular business tables\n\n## 📋 MANDATORY PROCESSING STEPS\n\n### Step 1: Assignment Extraction\n```\nASSIGNMENT VALIDATION:\nMy Target Component: [targetComponent.namespace] - [targetComponent.filename]\nTables I Must Create: [list each table from targetComponent.tables with EXACT names]\nRequired Count: [targetComponent.tables.length]\nAlready Created Tables (Reference Only): [list otherComponents tables - these ALREADY EXIST]\n\n✅ I will create exactly [count] models from targetComponent.tables\n✅ I will use EXACT table names as provided (NO CHANGES)\n✅ I will use otherComponents tables only for foreign key relationships (they ALREADY EXIST)\n✅ I will add junction tables if needed for M:N relationships\n```\n\n### Step 2: Table Creation\nFor each table in `targetComponent.tables`:\n1. Create model with exact name as provided (NO CHANGES)\n2. Add primary key field "id" of type "uuid"  \n3. Add business fields based on requirements\n4. Add foreign keys to reference other tables\n5. Add proper relationships and constraints\n\n### Step 3: Success Verification\n- ✅ All `targetComponent.tables` entries created with exact names\n- ✅ No missing tables from assignment\n- ✅ All models have proper structure\n- ✅ Foreign keys reference existing tables correctly\n\n## 🎯 CLEAR EXAMPLES\n\n### Example Input\n```typescript\nconst targetComponent: AutoBePrisma.IComponent = {\n  filename: "schema-02-sales.prisma",\n  namespace: "Sales", \n  tables: ["shopping_goods", "shopping_goods_options"]\n};\nconst otherComponents: AutoBePrisma.IComponent[] = [\n  {\n    filename: "schema-01-actors.prisma", // ALREADY CREATED FILE\n    namespace: "Actors",\n    tables: ["shopping_customers", "shopping_sellers"] // ALREADY CREATED TABLES\n  }\n];\n```\n\n### ✅ CORRECT OUTPUT\n```typescript\nmodels: [\n  { \n    name: "shopping_goods",\n    // ... fields and relationships\n  },\n  { \n    name: "shopping_goods_options", \n    // ... fields and relationships\n  }\n]\n```\n\n**Why this is correct:**\n- ✅ Created `shopping_goods` (from targetComponent.tables)\n- ✅ Created `shopping_goods_options` (from targetComponent.tables)  \n- ✅ Total: 2 models = targetComponent.tables.length\n- ✅ Can reference `shopping_customers` via foreign key (ALREADY EXISTS in otherComponents)\n\n### ❌ COMMON MISTAKE\n```typescript\nmodels: [\n  { name: "shopping_customers" }, // ❌ ALREADY CREATED in otherComponents!\n  { name: "shopping_sellers" }    // ❌ ALREADY CREATED in otherComponents!\n]\n```\n\n**Why this is wrong:**\n- ❌ Created tables from otherComponents that are ALREADY CREATED\n- ❌ Missing required tables from targetComponent.tables\n- ❌ Completely ignored the actual assignment\n- ❌ Duplicated already existing tables\n\n## 🔧 TECHNICAL SPECIFICATIONS\n\n### Default Working Language: English\n\n- Use the language specified by user in messages as the working language when explicitly provided\n- All thinking and responses must be in the working language\n- All model/field names must be in English regardless of working language\n\n### Normalization Requirements\n\n#### First Normal Form (1NF)\n- Each field contains atomic values only\n- No repeating groups or arrays in regular tables\n- Each row must be unique\n\n#### Second Normal Form (2NF)\n- Must be in 1NF\n- All non-key attributes fully depend on the entire primary key\n- No partial dependencies on composite keys\n\n#### Third Normal Form (3NF)\n- Must be in 2NF\n- No transitive dependencies\n- All non-key attributes depend only on the primary key\n\n#### Denormalization Rules\n- **ONLY allowed in materialized views** with `mv_` prefix\n- Regular business tables MUST remain fully normalized\n- Pre-calculated totals, counts, summaries → `mv_` tables only\n- Cached data for performance → `mv_` tables only\n- Redundant data for reporting → `mv_` tables only\n\n### Input Format\nYou will receive:\n1. **User requirements specification** - Detailed business requirements document\n2. **AutoBePrisma types** - Structured interfaces for schema generation\n3. **Context information in messages** - Structured as `AutoBePrisma.IComponent` objects:\n   - **Target Component** - Your assignment (create these tables)\n   - **Other Components** - Already created tables (use for foreign keys only)\n\n### Schema Design Guidelines\n\n#### Naming Conventions\n- **Models**: Use exact names from `targetComponent.tables` (NO CHANGES)\n- **Fields**: `snake_case` (e.g., `created_at`, `user_id`, `shopping_customer_id`)  \n- **Relations**: `snake_case` (e.g., `customer`, `order_items`, `user_profile`)\n- **Foreign Keys**: `{target_model_name}_id` pattern (e.g., `shopping_customer_id`, `bbs_article_id`)\n- **Materialized Views**: `mv_` prefix (e.g., `mv_shopping_sale_last_snapshots`)\n\n#### File Organization Principles\n- Organize by business domains (8-10 files typical)\n- Follow dependency order in numbering: `schema-{number}-{domain}.prisma`\n- Common domains: Systematic, Actors, Sales, Carts, Orders, Coupons, Coins, Inquiries, Favorites, Articles\n- Each file should contain 3-15 related models\n\n#### Data Type Mapping\n- **Primary Keys**: Always `"uuid"` type\n- **Foreign Keys**: Always `"uuid"` type  \n- **Timestamps**: Use `"datetime"` type\n- **Monetary Values**: Use `"double"` type\n- **Quantities/Counts**: Use `"int"` type\n- **Text Content**: Use `"string"` type\n- **URLs/Links**: Use `"uri"` type\n- **Flags/Booleans**: Use `"boolean"` type\n- **Dates Only**: Use `"date"` type (rare)\n\n#### Prohibited Field Types in Regular Tables\n**NEVER include these in regular business tables:**\n- Pre-calculated totals (e.g., `total_amount`, `item_count`)\n- Cached values (e.g., `last_purchase_date`, `total_spent`)\n- Aggregated data (e.g., `average_rating`, `review_count`)\n- Derived values (e.g., `full_name` from first/last name)\n- Summary fields (e.g., `order_summary`, `customer_status`)\n\n**These belong ONLY in `mv_` materialized views!**\n\n#### Description Writing Standards\n\nEach description MUST include:\n\n1. **Requirements Mapping**: Which specific requirement from the requirements analysis this implements\n2. **Business Purpose**: What business problem this solves in simple, understandable language\n3. **Technical Context**: How it relates to other models and system architecture\n4. **Normalization Compliance**: How this maintains normalized structure\n5. **Usage Examples**: Clear examples of how this will be used\n6. **Behavioral Notes**: Important constraints, rules, or special behaviors\n\n**Model Description Format:**\n```\n"[Model Purpose] - This implements the [specific requirement] from the requirements document. \n\n[Business explanation in simple terms]. Maintains [normalization level] compliance by [explanation]. For example, [concrete usage example].\n\nKey relationships: [important connections to other models].\nSpecial behaviors: [any important constraints or rules]."\n```\n\n**Field Description Format:**\n```\n"[Field purpose] - Implements the [requirement aspect]. \n\n[Business meaning]. Ensures normalization by [explanation]. For example, [usage example].\n[Any constraints or special behaviors]."\n```\n\n#### Relationship Design Patterns\n- **1:1 Relationships**: Set `unique: true` on foreign key\n- **1:N Relationships**: Set `unique: false` on foreign key  \n- **M:N Relationships**: Create junction tables with composite keys\n- **Self-References**: Use `parent_id` field name\n- **Snapshot Relationships**: Link current entity to its snapshot history\n- **Optional Relationships**: Set `nullable: true` when relationship is optional\n\n**Junction Table Guidelines:**\n- Name pattern: `{table1}_{table2}` (alphabetical order preferred)\n- Always include composite primary key from both foreign keys\n- Include `created_at` timestamp for audit trail\n- May include additional attributes specific to the relationship\n\n#### Materialized View Patterns\n- Set `material: true` for computed/cached tables\n- Prefix names with `mv_`\n- Common patterns: `mv_*_last_snapshots`, `mv_*_prices`, `mv_*_balances`, `mv_*_inventories`\n- **ONLY place for denormalized data**\n- **ONLY place for pre-calculated fields**\n- **ONLY place for aggregated values**\n\n#### Index Strategy\n- **NO single foreign key indexes** - Prisma auto-creates these\n- **Composite indexes OK** - Include foreign keys with other fields for query patterns\n- **Unique indexes**: For business constraints (emails, codes, composite keys)\n- **Performance indexes**: For common query patterns (timestamps, search fields)\n- **GIN indexes**: For full-text search on string fields\n\n### Requirements Analysis Process\n\n#### 1. Assignment Validation (FIRST PRIORITY)\n- Extract `targetComponent.tables` - This is your complete specification\n- Count required tables: `targetComponent.tables.length`\n- Identify domain: `targetComponent.namespace`\n- Note already created tables from `otherComponents[]` for foreign keys\n\n#### 2. Domain Understanding\n- Understand the business domain from `targetComponent.namespace`\n- Analyze how your tables fit within the overall system\n- Plan relationships with already created tables from other components\n\n#### 3. Entity Extraction\n- Extract all business entities from `targetComponent.tables`\n- Identify main entities vs snapshot entities vs junction tables\n- Determine materialized views needed for performance\n- **Separate normalized entities from denormalized reporting needs**\n\n#### 4. Relationship Mapping\n- Map all relationships between entities within your domain\n- Identify relationships to already created tables (foreign keys only)\n- Determine cardinality (1:1, 1:N, M:N)\n- Determine optional vs required relationships\n- **Ensure relationships maintain normalization**\n\n#### 5. Attribute Analysis\n- Extract all data attributes from requirements for your domain\n- Determine data types and constraints\n- Identify nullable vs required fields\n- **Separate atomic data from calculated data**\n\n#### 6. Business Rule Implementation\n- Identify unique constraints from business rules within your domain\n- Determine audit trail requirements (snapshot pattern)\n- Map performance requirements to indexes\n- **Map denormalization needs to materialized views**\n\n### MANDATORY REVIEW PROCESS\n\n#### Pre-Output Validation Checklist\n\n**ALWAYS perform this comprehensive review before generating the function call:**\n\n1. **Component Compliance Validation**\n   - All models from `targetComponent.tables` are included\n   - No models from `otherComponents[].tables` are created\n   - Additional tables are only for M:N relationships within domain\n   - All model names are exact matches to `targetComponent.tables`\n\n2. **Normalization Validation**\n   - All regular tables comply with 3NF minimum\n   - No calculated fields in regular business tables\n   - All denormalized data is in `mv_` tables only\n   - No transitive dependencies in regular tables\n\n3. **Model Validation**\n   - All model names are unique within the schema\n   - All models have exactly one primary key field named "id" of type "uuid"\n   - All materialized views have `material: true` and "mv_" prefix\n   - Regular tables contain only atomic, normalized data\n\n4. **Field Validation**  \n   - No duplicate field names within any model\n   - All foreign key fields follow `{target_model}_id` pattern\n   - All foreign key fields have type "uuid"\n   - All field descriptions map to specific requirements\n   - **NO calculated fields in regular tables**\n\n5. **Relationship Validation**\n   - All foreign fields have corresponding relation definitions\n   - Target models exist in the schema structure or `otherComponents`\n   - No duplicate relation names within any model\n   - Cardinality correctly reflected in `unique` property\n\n6. **Index Validation**\n   - No single foreign key indexes in plain or unique indexes\n   - All composite indexes serve clear query patterns\n   - All referenced field names exist in their models\n   - GIN indexes only on string type fields\n\n#### Quality Assurance Questions\n\nBefore finalizing, verify:\n- Does each model clearly implement a specific business requirement?\n- Are all relationships bidirectionally consistent?\n- Do all descriptions provide clear requirement traceability?\n- Are naming conventions consistently applied?\n- Is the snapshot architecture properly implemented?\n- Are all business constraints captured in unique indexes?\n- **Is every regular table properly normalized?**\n- **Are ALL calculated/aggregated fields in `mv_` tables only?**\n- **Are ALL required tables from `targetComponent.tables` created?**\n- **Are ZERO tables from `otherComponents[].tables` created?**\n\n### Expected Output\n\nGenerate a single function call using the AutoBePrisma.IMakePrismaSchemaFileProps structure:\n\n```typescript\n// Function call format\n{\n  tablesToCreate: string[];           // Step 1: List tables from targetComponent.tables\n  validationReview: string;           // Step 2: Validate against requirements\n  confirmedTables: string[];          // Step 3: Final confirmed list\n  models: AutoBePrisma.IModel[];      // Step 4: Create models\n}\n```\n\n## 🎯 FINAL SUCCESS CHECKLIST\n\n**Before generating output, verify:**\n- ✅ Created model for every table in `targetComponent.tables`\n- ✅ Model count matches `targetComponent.tables.length` (plus junction tables if needed)\n- ✅ All model names are EXACT matches to `targetComponent.tables` entries\n- ✅ All models have proper structure (id, fields, relationships)\n- ✅ Foreign keys reference already created tables correctly\n- ✅ No duplicate models or fields\n- ✅ Proper normalization maintained\n- ✅ **ALL REGULAR TABLES FULLY NORMALIZED (3NF minimum)**\n- ✅ **NO PRE-CALCULATED FIELDS IN REGULAR TABLES**\n- ✅ **ALL DENORMALIZATION IN `mv_` TABLES ONLY**\n- ✅ **NO TABLES FROM `otherComponents[].tables` CREATED**\n- ✅ **COMPREHENSIVE VALIDATION COMPLETED**\n\n### Task: Generate Structured Prisma Schema Definition\n\nTransform user requirements into a complete AutoBePrisma.IMakePrismaSchemaFileProps structure that implements the 4-step validation process:\n\n1. **tablesToCreate**: List all tables from `targetComponent.tables`\n2. **validationReview**: Validate against requirements and component boundaries  \n3. **confirmedTables**: Final confirmed list after validation\n4. **models**: Create models for each confirmed table\n\n**🎯 REMEMBER: Your job is to create exactly the tables specified in `targetComponent.tables` with their exact names - nothing more, nothing less!**';
@@ -0,0 +1,304 @@
+import OpenAI from "openai";
+
+import { accountCalls, toCalls } from "./accountCalls";
+import { APPLICATION } from "./application";
+import { assembleScenario } from "./assembleScenario";
+import { AutoBePrisma } from "./AutoBePrisma";
+import { createApi } from "./createApi";
+import { createFailure } from "./createFailure";
+import { IComponentResult } from "./IComponentResult";
+import { IExecuteConfig } from "./IExecuteConfig";
+import { IFixture } from "./IFixture";
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+import { IInspection } from "./IInspection";
+import { ILintRule } from "./ILintRule";
+import { IModelPrice } from "./IModelPrice";
+import { inspectResult } from "./inspectResult";
+import { listModelNames } from "./listModelNames";
+import { parseArguments } from "./parseArguments";
+import { prepareExecution } from "./prepareExecution";
+import { printComponentResult } from "./printComponentResult";
+import { renderPrompt } from "./renderPrompt";
+import { selectAnalyze } from "./selectAnalyze";
+
+/**
+ * Execute every component of a scenario in a single chat completion, by
+ * parallel function calling.
+ *
+ * Unlike {@link execute} sending a request per component, all components are
+ * delivered in one request with `parallel_tool_calls` enabled, and the AI is
+ * expected to call the `make` function once per component. Each tool call is
+ * matched back to the component whose tables it contains the most.
+ *
+ * Components without any matched call are reported as errors, and components
+ * with multiple matched calls (duplicated) are reported as failures,
+ * validating the call with the most matched tables. Tables of a component
+ * created in a call attributed to another component (misattributed) are
+ * recorded in {@link IComponentResult.IParallel}. As there's only one API
+ * call, it is accounted once, to the first component of the scenario, and the
+ * latency is divided evenly by the components. Tool calls matching no
+ * component, or whose arguments cannot be parsed (unattributed), are recorded
+ * in the result of every component of the scenario. The correction mode is not
+ * supported, and the prompt template must not have placeholders of the target
+ * component, rejected by {@link checkParallel} before any API call.
+ *
+ * @param name Name of the execution, used for the results directory
+ * @param options Execution configuration
+ * @returns Result of each component
+ */
+export async function executeParallel(
+  name: string,
+  options: Partial<IExecuteConfig> = {}
+): Promise<IComponentResult[]> {
+  const reason: string | null = await checkParallel(options);
+  if (reason !== null) throw new Error(reason);
+
+  const { config, fixtures, prices, lint, template, label } =
+    await prepareExecution(options);
+
+  const output: IComponentResult[] = [];
+  for (const fixture of fixtures)
+    output.push(
+      ...(await executeParallelScenario({
+        name,
+        config,
+        prices,
+        lint,
+        template,
+        label,
+        fixture,
+      }))
+    );
+  return output;
+}
+
+/**
+ * Check whether the configuration is supported by {@link executeParallel}.
+ *
+ * The parallel mode has no target component, so the prompt template must not
+ * have its placeholders.
+ *
+ * @param options Execution configuration
+ * @returns Reason of the rejection, or `null` when supported
+ */
+export async function checkParallel(
+  options: Partial<IExecuteConfig> = {}
+): Promise<string | null> {
+  const { config, template } = await prepareExecution(options);
+  try {
+    renderPrompt(template, {});
+    return null;
+  } catch {
+    return `Prompt variant "${config.prompt}" has placeholders of the target component, not supported by the parallel mode.`;
+  }
+}
+
+async function executeParallelScenario(props: {
+  name: string;
+  config: IExecuteConfig;
+  prices: Record<string, IModelPrice>;
+  lint: Record<string, ILintRule.Severity | "off">;
+  template: string;
+  label: (result: IComponentResult) => string;
+  fixture: IFixture;
+}): Promise<IComponentResult[]> {
+  const { name, config, prices, template, label } = props;
+  const { scenario, targets } = props.fixture;
+  const started: number = Date.now();
+  const { api, usage, cassette, trace } = await createApi({
+    name,
+    namespace: `${scenario.name}/parallel`,
+    config,
+  });
+
+  let calls: OpenAI.ChatCompletionMessageToolCall[];
+  try {
+    const response = await api.chat.completions.create({
+      model: config.model,
+      messages: [
+        {
+          role: "system",
+          content: renderPrompt(template, {}),
+        },
+        {
+          role: "assistant",
+          content: JSON.stringify({
+            requirementAnalysisReport: selectAnalyze({
+              config,
+              scenario,
+              targets,
+            }),
+            components: targets,
+          }),
+        },
+        {
+          role: "user",
+          content: [
+            "Do parallel function calling.",
+            "",
+            "Call the function once for each component in `components`, at the same time. In each call, regard the component as `targetComponent`, and the other components as `otherComponents`.",
+          ].join("\n"),
+        },
+        {
+          role: "system",
+          content:
+            "You are a helpful assistant that doing AI function calling.",
+        },
+      ],
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: APPLICATION.functions[0].name,
+            description: APPLICATION.functions[0].description,
+            parameters: APPLICATION.functions[0].parameters as any,
+          },
+        },
+      ],
+      tool_choice: "required",
+      parallel_tool_calls: true,
+    });
+    calls = response.choices[0].message.tool_calls ?? [];
+    await cassette?.save();
+    await trace?.save();
+  } catch (exp) {
+    trace?.record({
+      source: "runner",
+      type: "error",
+      data: {
+        message: exp instanceof Error ? exp.message : String(exp),
+      },
+    });
+    await trace?.save();
+    const output: IComponentResult[] = targets.map((comp) =>
+      createFailure({
+        scenario,
+        component: comp,
+        config,
+        prices,
+        latency: (Date.now() - started) / targets.length,
+        error: exp instanceof Error ? exp.message : String(exp),
+      })
+    );
+    if (config.verbose)
+      output.forEach((r) => printComponentResult(r, config, label));
+    return output;
+  }
+  const latency: number = (Date.now() - started) / targets.length;
+  const recorded: IComponentResult.ICall[] = toCalls(await usage.join());
+  const own = (comp: AutoBePrisma.IComponent): IComponentResult.ICall[] =>
+    comp === targets[0] ? recorded : [];
+
+  // MATCH EACH CALL TO THE COMPONENT OF THE MOST TABLES
+  const matched: Array<{
+    index: number;
+    component: AutoBePrisma.IComponent | null;
+    score: number;
+    result: IFunctionCallingResult | null;
+    error: string | null;
+  }> = calls.map((call, index) => {
+    let result: IFunctionCallingResult | null = null;
+    let error: string | null = null;
+    try {
+      result = parseArguments(
+        call.function.arguments
+      ) as IFunctionCallingResult;
+    } catch (exp) {
+      error = exp instanceof Error ? exp.message : String(exp);
+    }
+    const names: string[] = listModelNames(result);
+    let component: AutoBePrisma.IComponent | null = null;
+    let score: number = 0;
+    for (const comp of targets) {
+      const s: number = names.filter((n) => comp.tables.includes(n)).length;
+      if (s > score) {
+        component = comp;
+        score = s;
+      }
+    }
+    return { index, component, score, result, error };
+  });
+  const unattributed: IComponentResult.IUnattributed[] = matched
+    .filter((m) => m.component === null)
+    .map((m) => ({
+      index: m.index,
+      tables: listModelNames(m.result),
+      error: m.error,
+    }));
+
+  const generated: Map<AutoBePrisma.IComponent, IFunctionCallingResult> =
+    new Map();
+  const output: IComponentResult[] = targets.map((comp) => {
+    const mine = matched
+      .filter((m) => m.component === comp && m.result !== null)
+      .sort((a, b) => b.score - a.score);
+    const parallel: IComponentResult.IParallel = {
+      calls: mine.length,
+      misattributed: matched
+        .filter((m) => m.component !== null && m.component !== comp)
+        .map((m) => listModelNames(m.result))
+        .flat()
+        .filter((t) => comp.tables.includes(t)),
+      unattributed,
+    };
+    if (mine.length === 0)
+      return {
+        ...createFailure({
+          scenario,
+          component: comp,
+          config,
+          prices,
+          latency,
+          error: "No function call has been made for the component.",
+        }),
+        ...accountCalls({
+          model: config.model,
+          prices,
+          calls: own(comp),
+        }),
+        parallel,
+      };
+
+    const result: IFunctionCallingResult = mine[0].result!;
+    const inspection: IInspection = inspectResult(
+      comp,
+      scenario.components.filter((c) => c !== comp),
+      result,
+      props.lint
+    );
+    if (inspection.typeErrors.length === 0) generated.set(comp, result);
+    return {
+      scenario: scenario.name,
+      namespace: comp.namespace,
+      filename: comp.filename,
+      model: config.model,
+      prompt: config.prompt,
+      context: config.context,
+      ...inspection,
+      success: inspection.success && mine.length === 1,
+      untraced: [],
+      attempts: 1,
+      latency,
+      ...accountCalls({
+        model: config.model,
+        prices,
+        calls: own(comp),
+      }),
+      error: null,
+      parallel,
+    };
+  });
+  if (config.verbose) {
+    output.forEach((r) => printComponentResult(r, config, label));
+    for (const u of unattributed)
+      console.log(
+        `(${scenario.name})`,
+        "Unattributed",
+        u.error !== null
+          ? `call #${u.index} has unparsable arguments: ${u.error}`
+          : `call #${u.index} matches no component`
+      );
+  }
+  await assembleScenario({ name, config, label, scenario, generated, output });
+  return output;
+}
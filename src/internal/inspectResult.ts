@@ -0,0 +1,70 @@
+import typia, { IValidation } from "typia";
+
+import { analyzeChain } from "./analyzeChain";
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+import { IInspection } from "./IInspection";
+import { ILintRule } from "./ILintRule";
+import { lintPrismaModels } from "./lintPrismaModels";
+import { LINT_RULES } from "./lintRules";
+import { listModelNames } from "./listModelNames";
+import { validatePrismaModels } from "./validatePrismaModels";
+
+/**
+ * Inspect the function calling result.
+ *
+ * The result is validated by `typia` first, as the AI may break the type. The
+ * semantic validation and the lint are done only when the type is satisfied,
+ * and the table selection is inspected from whatever models are readable.
+ */
+export function inspectResult(
+  targetComponent: AutoBePrisma.IComponent,
+  otherComponents: AutoBePrisma.IComponent[],
+  result: IFunctionCallingResult,
+  lint: Record<string, ILintRule.Severity | "off">
+): IInspection {
+  const validation: IValidation<IFunctionCallingResult> =
+    typia.validate<IFunctionCallingResult>(result);
+  const expected: string[] = targetComponent.tables.slice().sort();
+  const actual: string[] = listModelNames(result).sort();
+  const others: Set<string> = new Set(
+    otherComponents.map((c) => c.tables).flat()
+  );
+  const missing: string[] = expected.filter(
+    (t) => actual.includes(t) === false
+  );
+  const extra: string[] = actual.filter((t) => expected.includes(t) === false);
+  return {
+    success:
+      expected.length === actual.length &&
+      expected.every((v, i) => v === actual[i]),
+    expected,
+    actual,
+    missing,
+    extra,
+    otherComponentTables: extra.filter((t) => others.has(t)),
+    chain: analyzeChain({ targetComponent, result }),
+    typeErrors: validation.success
+      ? []
+      : validation.errors.map((e) => ({
+          path: e.path,
+          expected: e.expected,
+          value: e.value,
+        })),
+    errors: validation.success
+      ? validatePrismaModels({
+          models: result.models,
+          enums: result.enums ?? [],
+          targetComponent,
+          otherComponents,
+        })
+      : [],
+    lint: validation.success
+      ? lintPrismaModels({
+          models: result.models,
+          rules: LINT_RULES,
+          config: lint,
+        })
+      : [],
+  };
+}
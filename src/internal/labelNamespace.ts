@@ -0,0 +1,19 @@
+import { IComponentResult } from "./IComponentResult";
+
+/**
+ * Compose a function labeling the namespace of a result.
+ *
+ * As the same namespace (like `Actors`) may exist in different scenarios, the
+ * namespace is qualified by its scenario, `{scenario}/{namespace}`, when the
+ * results span multiple scenarios.
+ *
+ * @param scenarios Names of the scenarios in the results
+ * @returns Labeling function
+ */
+export function labelNamespace(
+  scenarios: string[]
+): (result: Pick<IComponentResult, "scenario" | "namespace">) => string {
+  const multiple: boolean = new Set(scenarios).size > 1;
+  return (result) =>
+    multiple ? `${result.scenario}/${result.namespace}` : result.namespace;
+}
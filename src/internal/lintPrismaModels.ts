@@ -0,0 +1,40 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+import { ILintRule } from "./ILintRule";
+import { ILintViolation } from "./ILintViolation";
+
+/**
+ * Lint the generated models by the rules.
+ *
+ * Every rule runs over every model with its default severity, unless the
+ * configuration adjusts the severity or turns the rule off.
+ *
+ * @param props Models to lint, rules and their configuration
+ * @returns Violations of the enabled rules, empty if none
+ */
+export function lintPrismaModels(props: {
+  models: AutoBePrisma.IModel[];
+  rules: Record<string, ILintRule>;
+  config: Record<string, ILintRule.Severity | "off">;
+}): ILintViolation[] {
+  const output: ILintViolation[] = [];
+  for (const [name, rule] of Object.entries(props.rules)) {
+    const severity: ILintRule.Severity | "off" =
+      props.config[name] ?? rule.severity;
+    if (severity === "off") continue;
+    props.models.forEach((model, i) =>
+      output.push(
+        ...rule
+          .check({
+            model,
+            path: `models[${i}]`,
+          })
+          .map((v) => ({
+            rule: name,
+            severity,
+            ...v,
+          }))
+      )
+    );
+  }
+  return output;
+}
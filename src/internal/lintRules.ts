@@ -0,0 +1,125 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+import { ILintRule } from "./ILintRule";
+
+/**
+ * Dictionary of the lint rules, keyed by rule name.
+ *
+ * Adjust the severities, or turn rules off, by a JSON file of
+ * `{ [rule]: "error" | "warning" | "off" }`, pointed by the `LINT_CONFIG`
+ * environment variable or the `--lint` option.
+ */
+export const LINT_RULES: Record<string, ILintRule> = {
+  "no-aggregate-field": {
+    description:
+      "Pre-calculated fields like `total_*`, `*_count` and `average_*` are allowed only in the `mv_` materialized views.",
+    severity: "error",
+    check: ({ model, path }) =>
+      model.material
+        ? []
+        : model.plainFields
+            .map((field, j) => ({ field, j }))
+            .filter(({ field }) => AGGREGATE.test(field.name))
+            .map(({ field, j }) => ({
+              path: `${path}.plainFields[${j}].name`,
+              message: `Field "${model.name}.${field.name}" looks pre-calculated, which is allowed only in materialized views.`,
+            })),
+  },
+  "foreign-key-naming": {
+    description:
+      "Foreign keys are named `{target_model}_id`, with the target model in the singular form, or a suffix of it.",
+    severity: "warning",
+    check: ({ model, path }) =>
+      model.foreignFields
+        .map((field, j) => ({ field, j }))
+        .filter(
+          ({ field }) =>
+            field.relation.targetModel !== model.name &&
+            isForeignKeyName(field.name, field.relation.targetModel) === false
+        )
+        .map(({ field, j }) => ({
+          path: `${path}.foreignFields[${j}].name`,
+          message: `Foreign key "${model.name}.${
+            field.name
+          }" does not match its target model "${
+            field.relation.targetModel
+          }", expected like "${singularize(field.relation.targetModel)}_id".`,
+        })),
+  },
+  "self-reference-naming": {
+    description:
+      "Foreign keys referring their own model are named `parent_id`.",
+    severity: "warning",
+    check: ({ model, path }) =>
+      model.foreignFields
+        .map((field, j) => ({ field, j }))
+        .filter(
+          ({ field }) =>
+            field.relation.targetModel === model.name &&
+            field.name !== "parent_id"
+        )
+        .map(({ field, j }) => ({
+          path: `${path}.foreignFields[${j}].name`,
+          message: `Self-reference "${model.name}.${field.name}" must be named "parent_id".`,
+        })),
+  },
+  "relation-naming": {
+    description: "Relation names are in `snake_case`.",
+    severity: "warning",
+    check: ({ model, path }) =>
+      model.foreignFields
+        .map((field, j) => ({ field, j }))
+        .filter(({ field }) => SNAKE_CASE.test(field.relation.name) === false)
+        .map(({ field, j }) => ({
+          path: `${path}.foreignFields[${j}].relation.name`,
+          message: `Relation "${model.name}.${field.relation.name}" is not in snake_case.`,
+        })),
+  },
+  "junction-created-at": {
+    description:
+      "Junction tables of M:N relationships have the `created_at` timestamp for the audit trail.",
+    severity: "warning",
+    check: ({ model, path }) =>
+      isJunction(model) &&
+      model.plainFields.every((f) => f.name !== "created_at")
+        ? [
+            {
+              path: `${path}.plainFields`,
+              message: `Junction table "${model.name}" has no "created_at" field.`,
+            },
+          ]
+        : [],
+  },
+};
+
+const AGGREGATE: RegExp =
+  /^(total|average|avg|sum)_|_(count|total|sum|average)$/;
+const SNAKE_CASE: RegExp = /^[a-z][a-z0-9_]*$/;
+
+function isForeignKeyName(name: string, target: string): boolean {
+  if (name.endsWith("_id") === false) return false;
+  const stem: string = name.slice(0, -3);
+  const singular: string = singularize(target);
+  return singular === stem || singular.endsWith(`_${stem}`);
+}
+
+/**
+ * Junction table is identified by the composite primary key, or by two
+ * foreign keys without any business data except timestamps.
+ */
+function isJunction(model: AutoBePrisma.IModel): boolean {
+  return (
+    model.primaryField.type === "composite" ||
+    (model.foreignFields.length === 2 &&
+      model.plainFields.every(
+        (f) => f.type === "datetime" || f.type === "date"
+      ))
+  );
+}
+
+function singularize(name: string): string {
+  if (name.endsWith("ies")) return `${name.slice(0, -3)}y`;
+  else if (/(s|x|z|ch|sh)es$/.test(name)) return name.slice(0, -2);
+  else if (name.endsWith("s") && name.endsWith("ss") === false)
+    return name.slice(0, -1);
+  return name;
+}
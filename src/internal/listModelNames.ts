@@ -0,0 +1,11 @@
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+
+export function listModelNames(
+  result: IFunctionCallingResult | null
+): string[] {
+  return Array.isArray(result?.models)
+    ? result!.models
+        .map((m) => m?.name)
+        .filter((name): name is string => typeof name === "string")
+    : [];
+}
@@ -0,0 +1,46 @@
+import fs from "fs";
+import typia from "typia";
+
+import { IMatrixConfig } from "./IMatrixConfig";
+import { RUNNERS } from "./runners";
+
+/**
+ * Load the configuration of the matrix run.
+ *
+ * The file is validated by `typia.assert`, and the runners, endpoint names and
+ * API key variables are checked before any API call.
+ *
+ * @param location Path of the JSON file
+ * @returns Loaded configuration
+ */
+export async function loadMatrix(location: string): Promise<IMatrixConfig> {
+  let matrix: IMatrixConfig;
+  try {
+    matrix = typia.assert<IMatrixConfig>(
+      JSON.parse(await fs.promises.readFile(location, "utf8"))
+    );
+  } catch (exp) {
+    if (exp instanceof typia.TypeGuardError)
+      throw new Error(
+        `Invalid matrix "${location}": ${exp.path} must be ${
+          exp.expected
+        }, but ${JSON.stringify(exp.value)}.`
+      );
+    throw exp;
+  }
+  for (const runner of matrix.runners ?? [])
+    if (RUNNERS[runner] === undefined)
+      throw new Error(`Unknown runner "${runner}".`);
+  matrix.endpoints.forEach((endpoint, i) => {
+    if (matrix.endpoints.findIndex((e) => e.name === endpoint.name) !== i)
+      throw new Error(`Duplicated endpoint "${endpoint.name}".`);
+    if (
+      endpoint.apiKeyEnv !== undefined &&
+      process.env[endpoint.apiKeyEnv] === undefined
+    )
+      throw new Error(
+        `Environment variable "${endpoint.apiKeyEnv}" of the endpoint "${endpoint.name}" is not set.`
+      );
+  });
+  return matrix;
+}
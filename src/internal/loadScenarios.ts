@@ -0,0 +1,109 @@
+import fs from "fs";
+import path from "path";
+import typia from "typia";
+
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IScenario } from "./IScenario";
+
+/**
+ * Load scenarios from the directory of the scenarios.
+ *
+ * Every file is validated by `typia.assert`, so that a broken fixture (like a
+ * filename without the `.prisma` extension or an empty `tables` array) fails
+ * loudly before any API call.
+ *
+ * When `analyzePath` or `componentsPath` is given, a single scenario named
+ * `custom` is composed of them instead, whose missing file falls back to the
+ * first requested scenario.
+ *
+ * @param props Directory, names of the scenarios (`null` for every scenario)
+ *   and paths of the custom fixture files
+ * @returns Loaded scenarios
+ */
+export async function loadScenarios(props: {
+  directory: string;
+  names: string[] | null;
+  analyzePath: string | null;
+  componentsPath: string | null;
+}): Promise<IScenario[]> {
+  const available: string[] = (
+    await fs.promises.readdir(props.directory, { withFileTypes: true })
+  )
+    .filter((e) => e.isDirectory())
+    .map((e) => e.name)
+    .sort();
+  for (const name of props.names ?? [])
+    if (available.includes(name) === false)
+      throw new Error(
+        `Unknown scenario "${name}", must be one of ${available
+          .map((s) => `"${s}"`)
+          .join(", ")}.`
+      );
+
+  const names: string[] = props.names ?? available;
+  if (props.analyzePath !== null || props.componentsPath !== null) {
+    const fallback: string = path.join(props.directory, names[0]);
+    return [
+      await loadScenario({
+        name: "custom",
+        analyzePath: props.analyzePath ?? path.join(fallback, "analyze.json"),
+        componentsPath:
+          props.componentsPath ?? path.join(fallback, "components.json"),
+      }),
+    ];
+  }
+  return Promise.all(
+    names.map((name) =>
+      loadScenario({
+        name,
+        analyzePath: path.join(props.directory, name, "analyze.json"),
+        componentsPath: path.join(props.directory, name, "components.json"),
+      })
+    )
+  );
+}
+
+async function loadScenario(props: {
+  name: string;
+  analyzePath: string;
+  componentsPath: string;
+}): Promise<IScenario> {
+  const read = async (location: string): Promise<unknown> => {
+    try {
+      return JSON.parse(await fs.promises.readFile(location, "utf8"));
+    } catch (exp) {
+      throw new Error(
+        `Failed to read "${location}" of the scenario "${props.name}": ${
+          exp instanceof Error ? exp.message : String(exp)
+        }`
+      );
+    }
+  };
+  const assert = <T>(location: string, closure: () => T): T => {
+    try {
+      return closure();
+    } catch (exp) {
+      if (exp instanceof typia.TypeGuardError)
+        throw new Error(
+          `Invalid "${location}" of the scenario "${props.name}": ${
+            exp.path
+          } must be ${exp.expected}, but ${JSON.stringify(exp.value)}.`
+        );
+      throw exp;
+    }
+  };
+
+  const analyze: unknown = await read(props.analyzePath);
+  const components: unknown = await read(props.componentsPath);
+  return {
+    name: props.name,
+    analyze: assert(props.analyzePath, () =>
+      typia.assert<Record<string, string>>(analyze)
+    ),
+    components: assert(props.componentsPath, () =>
+      typia.assert<AutoBePrisma.IComponent[] & typia.tags.MinItems<1>>(
+        components
+      )
+    ),
+  };
+}
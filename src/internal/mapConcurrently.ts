@@ -0,0 +1,31 @@
+/**
+ * Map items through an async closure, with bounded concurrency.
+ *
+ * At most `concurrency` closures are running at the same time, and the
+ * results are returned in the same order with the items.
+ *
+ * @param items Items to map
+ * @param concurrency Maximum number of closures running at the same time
+ * @param closure Async mapping closure
+ * @returns Mapped results, in order of the items
+ */
+export async function mapConcurrently<T, U>(
+  items: T[],
+  concurrency: number,
+  closure: (item: T, index: number) => Promise<U>
+): Promise<U[]> {
+  const output: U[] = new Array(items.length);
+  let cursor: number = 0;
+  const worker = async (): Promise<void> => {
+    while (cursor < items.length) {
+      const index: number = cursor++;
+      output[index] = await closure(items[index], index);
+    }
+  };
+  await Promise.all(
+    new Array(Math.max(1, Math.min(concurrency, items.length)))
+      .fill(null)
+      .map(() => worker())
+  );
+  return output;
+}
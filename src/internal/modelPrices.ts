@@ -0,0 +1,18 @@
+import { IModelPrice } from "./IModelPrice";
+
+/**
+ * Default price table, keyed by model name.
+ *
+ * Override or extend it by a JSON file of the same shape, pointed by the
+ * `MODEL_PRICES` environment variable or the `--prices` option.
+ */
+export const MODEL_PRICES: Record<string, IModelPrice> = {
+  "gpt-4.1": { input: 2, cachedInput: 0.5, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6 },
+  o3: { input: 2, cachedInput: 0.5, output: 8 },
+  "o3-mini": { input: 1.1, cachedInput: 0.55, output: 4.4 },
+  "o4-mini": { input: 1.1, cachedInput: 0.275, output: 4.4 },
+};
@@ -0,0 +1,71 @@
+import OpenAI from "openai";
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+import { ITaskProps } from "./ITaskProps";
+import { parseArguments } from "./parseArguments";
+
+/**
+ * Generate models of a component through the raw OpenAI SDK.
+ */
+export const openaiTask = async (
+  props: ITaskProps
+): Promise<IFunctionCallingResult> => {
+  const messages: OpenAI.ChatCompletionMessageParam[] = [
+    {
+      role: "system",
+      content: props.systemPrompt,
+    },
+    {
+      role: "assistant",
+      content: JSON.stringify({
+        requirementAnalysisReport: props.analyze,
+        targetComponent: props.targetComponent,
+        otherComponents: props.otherComponents,
+      }),
+    },
+    {
+      role: "user",
+      content: "Do function calling",
+    },
+    {
+      role: "system",
+      content: "You are a helpful assistant that doing AI function calling.",
+    },
+  ];
+  while (true) {
+    const response = await props.api.chat.completions.create({
+      model: props.model,
+      messages,
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: props.application.functions[0].name,
+            description: props.application.functions[0].description,
+            parameters: props.application.functions[0].parameters as any,
+          },
+        },
+      ],
+      tool_choice: "required",
+    });
+    const message: OpenAI.ChatCompletionMessage = response.choices[0].message;
+    const call: OpenAI.ChatCompletionMessageToolCall = message.tool_calls![0];
+    const obj: IFunctionCallingResult = parseArguments(
+      call.function.arguments
+    ) as IFunctionCallingResult;
+
+    // CORRECTION MODE, DELIVER FEEDBACK AS THE TOOL RESULT
+    const feedback: string | null = props.review(obj);
+    if (feedback === null) return obj;
+    messages.push(
+      {
+        ...message,
+        tool_calls: [call],
+      },
+      {
+        role: "tool",
+        tool_call_id: call.id,
+        content: feedback,
+      }
+    );
+  }
+};
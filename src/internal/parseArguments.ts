@@ -0,0 +1,63 @@
+/**
+ * Parse the JSON arguments of a function call, repairing them if malformed.
+ *
+ * When the arguments can't be parsed as they are, slightly malformed JSON is
+ * repaired once before giving up: markdown code fences are stripped, trailing
+ * commas are removed, and truncated arguments are completed by closing the
+ * unterminated string and the open brackets. The parsed value is not
+ * type-checked here, but validated by `typia` afterwards.
+ *
+ * @param text JSON arguments of the function call
+ * @returns Parsed value
+ * @throws Error when the arguments can't be parsed even after the repair
+ */
+export function parseArguments(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (exp) {
+    try {
+      return JSON.parse(repair(text));
+    } catch {
+      throw new Error(
+        `Invalid JSON arguments: ${
+          exp instanceof Error ? exp.message : String(exp)
+        }`
+      );
+    }
+  }
+}
+
+function repair(text: string): string {
+  const source: string = text
+    .trim()
+    .replace(/^```(?:json)?\s*/, "")
+    .replace(/\s*```$/, "");
+  const stack: string[] = [];
+  let output: string = "";
+  let quoted: boolean = false;
+  let escaped: boolean = false;
+  for (const ch of source) {
+    if (quoted) {
+      output += ch;
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') quoted = false;
+      continue;
+    }
+    if (ch === '"') quoted = true;
+    else if (ch === "{") stack.push("}");
+    else if (ch === "[") stack.push("]");
+    else if (ch === "}" || ch === "]") {
+      // TRAILING COMMA
+      output = output.replace(/,\s*$/, "");
+      stack.pop();
+    }
+    output += ch;
+  }
+
+  // TRUNCATED
+  if (quoted) output = (escaped ? output.slice(0, -1) : output) + '"';
+  output = output.replace(/,\s*$/, "");
+  if (/:\s*$/.test(output)) output += "null";
+  return output + stack.reverse().join("");
+}
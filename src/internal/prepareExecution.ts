@@ -0,0 +1,127 @@
+import fs from "fs";
+import path from "path";
+import typia from "typia";
+
+import { IComponentResult } from "./IComponentResult";
+import { IExecuteConfig } from "./IExecuteConfig";
+import { IFixture } from "./IFixture";
+import { ILintRule } from "./ILintRule";
+import { IModelPrice } from "./IModelPrice";
+import { IScenario } from "./IScenario";
+import { labelNamespace } from "./labelNamespace";
+import { LINT_RULES } from "./lintRules";
+import { loadScenarios } from "./loadScenarios";
+import { MODEL_PRICES } from "./modelPrices";
+import { resolveConfig } from "./resolveConfig";
+
+/**
+ * Prepare an execution, resolving its configuration and loading what every
+ * component needs: the fixtures, the price table, the lint severities and the
+ * template of the system prompt.
+ *
+ * @param options Execution configuration
+ * @returns Resolved configuration and the loaded resources
+ */
+export async function prepareExecution(
+  options: Partial<IExecuteConfig>
+): Promise<{
+  config: IExecuteConfig;
+  fixtures: IFixture[];
+  prices: Record<string, IModelPrice>;
+  lint: Record<string, ILintRule.Severity | "off">;
+  template: string;
+  label: (result: IComponentResult) => string;
+}> {
+  const config: IExecuteConfig = resolveConfig(options);
+  const fixtures: IFixture[] = await loadFixtures(config);
+  return {
+    config,
+    fixtures,
+    prices: await loadPrices(config),
+    lint: await loadLint(config),
+    template: await loadPrompt(config),
+    label: labelNamespace(fixtures.map((f) => f.scenario.name)),
+  };
+}
+
+/**
+ * Load the price table, the default one overridden by the JSON file of
+ * {@link IExecuteConfig.pricesPath}.
+ */
+async function loadPrices(
+  config: IExecuteConfig
+): Promise<Record<string, IModelPrice>> {
+  if (config.pricesPath === null) return MODEL_PRICES;
+  return {
+    ...MODEL_PRICES,
+    ...typia.assert<Record<string, IModelPrice>>(
+      JSON.parse(await fs.promises.readFile(config.pricesPath, "utf8"))
+    ),
+  };
+}
+
+/**
+ * Load the severities of the lint rules, the defaults of {@link LINT_RULES}
+ * adjusted by the JSON file of {@link IExecuteConfig.lintPath}.
+ */
+async function loadLint(
+  config: IExecuteConfig
+): Promise<Record<string, ILintRule.Severity | "off">> {
+  if (config.lintPath === null) return {};
+  const output: Record<string, ILintRule.Severity | "off"> = typia.assert<
+    Record<string, ILintRule.Severity | "off">
+  >(JSON.parse(await fs.promises.readFile(config.lintPath, "utf8")));
+  for (const rule of Object.keys(output))
+    if (LINT_RULES[rule] === undefined)
+      throw new Error(
+        `Unknown lint rule "${rule}", must be one of ${Object.keys(LINT_RULES)
+          .map((r) => `"${r}"`)
+          .join(", ")}.`
+      );
+  return output;
+}
+
+/**
+ * Load the template of the system prompt variant, `{directory}/{prompt}.md`.
+ */
+async function loadPrompt(config: IExecuteConfig): Promise<string> {
+  const location: string = path.join(
+    config.promptDirectory,
+    `${config.prompt}.md`
+  );
+  if (fs.existsSync(location) === false)
+    throw new Error(
+      `Unknown prompt variant "${config.prompt}", must be one of ${(
+        await fs.promises.readdir(config.promptDirectory)
+      )
+        .filter((f) => f.endsWith(".md"))
+        .map((f) => `"${f.slice(0, -3)}"`)
+        .join(", ")}.`
+    );
+  return fs.promises.readFile(location, "utf8");
+}
+
+async function loadFixtures(config: IExecuteConfig): Promise<IFixture[]> {
+  const scenarios: IScenario[] = await loadScenarios({
+    directory: config.scenarioDirectory,
+    names: config.scenarios,
+    analyzePath: config.analyzePath,
+    componentsPath: config.componentsPath,
+  });
+  for (const namespace of config.namespaces ?? [])
+    if (
+      scenarios.every((s) =>
+        s.components.every((c) => c.namespace !== namespace)
+      )
+    )
+      throw new Error(`Unknown component namespace "${namespace}".`);
+  return scenarios
+    .map((scenario) => ({
+      scenario,
+      targets: scenario.components.filter(
+        (c) =>
+          config.namespaces === null || config.namespaces.includes(c.namespace)
+      ),
+    }))
+    .filter((f) => f.targets.length !== 0);
+}
@@ -0,0 +1,41 @@
+import { IComponentResult } from "./IComponentResult";
+import { IExecuteConfig } from "./IExecuteConfig";
+
+export function printComponentResult(
+  result: IComponentResult,
+  config: IExecuteConfig,
+  label: (result: IComponentResult) => string
+): void {
+  const suffix: string[] =
+    config.attempts > 1 ? [`(attempts: ${result.attempts})`] : [];
+  if (result.error !== null) console.log(label(result), "Error", result.error);
+  else if (result.success) console.log(label(result), "Success", ...suffix);
+  else
+    console.log(
+      label(result),
+      "Different",
+      {
+        expected: result.expected.join(", "),
+        actual: result.actual.join(", "),
+      },
+      ...suffix
+    );
+  if (result.typeErrors.length !== 0)
+    console.log(label(result), "Mistyped", result.typeErrors);
+  if (result.errors.length !== 0)
+    console.log(label(result), "Invalid", result.errors);
+  if (result.lint.length !== 0)
+    console.log(
+      label(result),
+      "Lint",
+      result.lint.map((v) => `${v.severity} ${v.rule} ${v.path}`)
+    );
+  if (
+    result.parallel !== undefined &&
+    (result.parallel.calls > 1 || result.parallel.misattributed.length !== 0)
+  )
+    console.log(label(result), "Parallel", {
+      calls: result.parallel.calls,
+      misattributed: result.parallel.misattributed.join(", "),
+    });
+}
@@ -0,0 +1,19 @@
+/**
+ * Print a table of plain text, padding every column to its widest cell.
+ *
+ * @param header Names of the columns
+ * @param rows Cells of each row, in order of the columns
+ */
+export function printTable(header: string[], rows: string[][]): void {
+  const table: string[][] = [header, ...rows];
+  const widths: number[] = header.map((_, i) =>
+    Math.max(...table.map((r) => r[i].length))
+  );
+  for (const row of table)
+    console.log(
+      row
+        .map((cell, i) => cell.padEnd(widths[i]))
+        .join("  ")
+        .trimEnd()
+    );
+}
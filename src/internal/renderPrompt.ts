@@ -0,0 +1,20 @@
+/**
+ * Render a prompt template, interpolating the `{{name}}` placeholders.
+ *
+ * @param template Content of the template file
+ * @param variables Values of the placeholders, keyed by name
+ * @returns Rendered prompt
+ * @throws Error when the template has a placeholder without value
+ */
+export function renderPrompt(
+  template: string,
+  variables: Record<string, string>
+): string {
+  return template
+    .replace(/\{\{\s*([a-zA-Z_][a-zA-Z0-9_]*)\s*\}\}/g, (_, name: string) => {
+      if (variables[name] === undefined)
+        throw new Error(`Unknown placeholder "{{${name}}}" in the prompt.`);
+      return variables[name];
+    })
+    .trimEnd();
+}
@@ -0,0 +1,21 @@
+import { IReportWriter } from "./IReportWriter";
+import { writeJUnitReport } from "./writeJUnitReport";
+import { writeMarkdownReport } from "./writeMarkdownReport";
+
+/**
+ * Dictionary of the report writers, keyed by format name.
+ */
+export const REPORT_WRITERS: Record<string, IReportWriter> = {
+  json: {
+    extension: "json",
+    write: (report) => JSON.stringify(report, null, 2),
+  },
+  junit: {
+    extension: "xml",
+    write: writeJUnitReport,
+  },
+  markdown: {
+    extension: "md",
+    write: writeMarkdownReport,
+  },
+};
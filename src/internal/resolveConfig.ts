@@ -0,0 +1,82 @@
+import path from "path";
+
+import { IExecuteConfig } from "./IExecuteConfig";
+
+export function resolveConfig(
+  options: Partial<IExecuteConfig>
+): IExecuteConfig {
+  const cassette: string | undefined = options.cassette ?? process.env.CASSETTE;
+  const context: string = options.context ?? process.env.CONTEXT ?? "full";
+  if (context !== "full" && context !== "trimmed")
+    throw new Error(
+      `Invalid context mode "${context}", must be "full" or "trimmed".`
+    );
+  if (
+    cassette !== undefined &&
+    cassette !== null &&
+    cassette !== "record" &&
+    cassette !== "replay"
+  )
+    throw new Error(
+      `Invalid cassette mode "${cassette}", must be "record" or "replay".`
+    );
+  return {
+    model: options.model ?? process.env.OPENAI_MODEL ?? "gpt-4.1",
+    scenarios:
+      options.scenarios !== undefined
+        ? options.scenarios
+        : process.env.SCENARIOS === "all"
+        ? null
+        : process.env.SCENARIOS?.split(",")
+            .map((s) => s.trim())
+            .filter((s) => s.length !== 0) ?? ["discussion-board"],
+    scenarioDirectory:
+      options.scenarioDirectory ??
+      process.env.SCENARIO_DIR ??
+      path.join(__dirname, "..", "scenarios"),
+    analyzePath: options.analyzePath ?? null,
+    componentsPath: options.componentsPath ?? null,
+    namespaces: options.namespaces ?? null,
+    concurrency:
+      options.concurrency ?? readInteger("COMPONENT_CONCURRENCY", 1, 8),
+    retries: options.retries ?? readInteger("RETRIES", 0, 5),
+    attempts: options.attempts ?? readInteger("CORRECTION_ATTEMPTS", 1, 1),
+    baseURL:
+      options.baseURL !== undefined
+        ? options.baseURL
+        : process.env.OPENAI_BASE_URL ?? null,
+    apiKey:
+      options.apiKey !== undefined
+        ? options.apiKey
+        : process.env.OPENAI_API_KEY ?? null,
+    pricesPath: options.pricesPath ?? process.env.MODEL_PRICES ?? null,
+    lintPath: options.lintPath ?? process.env.LINT_CONFIG ?? null,
+    prompt: options.prompt ?? process.env.SYSTEM_PROMPT ?? "v1",
+    promptDirectory:
+      options.promptDirectory ??
+      process.env.PROMPT_DIR ??
+      path.join(__dirname, "..", "prompts"),
+    context,
+    contextBudget:
+      options.contextBudget ?? readInteger("CONTEXT_BUDGET", 1, 2_000),
+    cassette: cassette ?? null,
+    trace: options.trace ?? process.env.TRACE === "true",
+    verbose: options.verbose ?? true,
+    cassetteDirectory:
+      options.cassetteDirectory ??
+      process.env.CASSETTE_DIR ??
+      path.join(__dirname, "..", "..", "cassettes"),
+  };
+}
+
+/**
+ * Read an integer environment variable, like the command line validates its
+ * flags, falling back to the default when it's absent or invalid (not an
+ * integer, or below the minimum).
+ */
+function readInteger(name: string, minimum: number, fallback: number): number {
+  const value: string | undefined = process.env[name]?.trim();
+  if (value === undefined || value.length === 0) return fallback;
+  const n: number = Number(value);
+  return Number.isInteger(n) && n >= minimum ? n : fallback;
+}
@@ -0,0 +1,6 @@
+import path from "path";
+
+/**
+ * Directory of the results, `results/` of the repository.
+ */
+export const RESULTS: string = path.join(__dirname, "..", "..", "results");
@@ -0,0 +1,42 @@
+import { IComponentResult } from "./IComponentResult";
+import { IExecuteConfig } from "./IExecuteConfig";
+import { agenticaTask } from "./agenticaTask";
+import { execute } from "./execute";
+import { checkParallel, executeParallel } from "./executeParallel";
+import { openaiTask } from "./openaiTask";
+import { structuredOutputTask } from "./structuredOutputTask";
+
+/**
+ * Dictionary of the runners, keyed by runner name.
+ *
+ * A runner executes every component under the execution name, and returns
+ * result of each component.
+ */
+export const RUNNERS: Record<
+  string,
+  (
+    name: string,
+    options?: Partial<IExecuteConfig>
+  ) => Promise<IComponentResult[]>
+> = {
+  agentica: (name, options) => execute(name, agenticaTask, options),
+  openai: (name, options) => execute(name, openaiTask, options),
+  "openai-parallel": executeParallel,
+  "structured-output": (name, options) =>
+    execute(name, structuredOutputTask, options),
+};
+
+/**
+ * Checks of the configurations a runner does not support, keyed by runner
+ * name.
+ *
+ * A check returns the reason of the rejection, or `null` when supported, so
+ * that unsupported combinations are rejected before any API call. Runners
+ * without a check support every configuration.
+ */
+export const RUNNER_CHECKS: Record<
+  string,
+  (options?: Partial<IExecuteConfig>) => Promise<string | null>
+> = {
+  "openai-parallel": checkParallel,
+};
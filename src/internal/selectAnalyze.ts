@@ -0,0 +1,23 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IExecuteConfig } from "./IExecuteConfig";
+import { IScenario } from "./IScenario";
+import { trimAnalyze } from "./trimAnalyze";
+
+/**
+ * Select the requirement analysis report delivered to the AI, the whole one
+ * or its sections relevant to the target components.
+ */
+export function selectAnalyze(props: {
+  config: IExecuteConfig;
+  scenario: IScenario;
+  targets: AutoBePrisma.IComponent[];
+}): Record<string, string> {
+  return props.config.context === "full"
+    ? props.scenario.analyze
+    : trimAnalyze({
+        analyze: props.scenario.analyze,
+        targetComponents: props.targets,
+        components: props.scenario.components,
+        budget: props.config.contextBudget,
+      });
+}
@@ -0,0 +1,26 @@
+import { IAnalyzeSection } from "./IAnalyzeSection";
+
+/**
+ * Split every markdown document of the requirement analysis report before each
+ * heading, the leading text before the first heading being a section too.
+ *
+ * @param analyze Requirement analysis report, dictionary of markdown documents
+ * @returns Sections of every document, in order
+ */
+export function splitAnalyze(
+  analyze: Record<string, string>
+): IAnalyzeSection[] {
+  return Object.entries(analyze)
+    .map(([document, content]) =>
+      content
+        .split(/^(?=#{1,6}\s)/m)
+        .filter((text) => text.trim().length !== 0)
+        .map((text, index) => ({
+          document,
+          index,
+          heading: text.match(/^#{1,6}\s.*$/m)?.[0] ?? "",
+          text,
+        }))
+    )
+    .flat();
+}
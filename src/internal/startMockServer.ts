@@ -0,0 +1,369 @@
+import http from "http";
+import OpenAI from "openai";
+
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+import { IMockScript } from "./IMockScript";
+
+/**
+ * Start a local stand-in of the OpenAI `/chat/completions` endpoint.
+ *
+ * The mock server returns scripted `tool_calls` responses, selected by the
+ * `targetComponent.namespace` found in the request messages (or every
+ * component of `components` for the parallel function calling), so that the
+ * runners can be executed end to end without any network connection. Both
+ * regular and streaming (`stream: true`) requests are supported, and the
+ * Structured Outputs (`response_format` of `json_schema` type) are served as
+ * the message content.
+ *
+ * @param props Port to listen and script of responses
+ * @returns Listening HTTP server
+ */
+export async function startMockServer(props: {
+  port: number;
+  script: IMockScript;
+}): Promise<http.Server> {
+  const server: http.Server = http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on("data", (c: Buffer) => chunks.push(c));
+    request.on("end", () => {
+      try {
+        if (
+          request.method !== "POST" ||
+          request.url?.split("?")[0].endsWith("/chat/completions") !== true
+        )
+          return reply(response, 404, {
+            error: {
+              message: `Unknown endpoint: ${request.method} ${request.url}`,
+            },
+          });
+        const body: OpenAI.ChatCompletionCreateParams = JSON.parse(
+          Buffer.concat(chunks).toString("utf8")
+        );
+        const error: string | null = validate(body);
+        if (error !== null)
+          return reply(response, 400, {
+            error: {
+              message: error,
+            },
+          });
+        respond(props.script, body, response);
+      } catch (exp) {
+        reply(response, 500, {
+          error: {
+            message: exp instanceof Error ? exp.message : String(exp),
+          },
+        });
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(props.port, resolve));
+  return server;
+}
+
+function validate(body: OpenAI.ChatCompletionCreateParams): string | null {
+  if (Array.isArray(body.messages) === false || body.messages.length === 0)
+    return "messages must be a non-empty array.";
+  if (body.tool_choice !== undefined && body.tool_choice !== "none") {
+    if (!body.tools?.length)
+      return "tool_choice is only allowed when tools are specified.";
+    const forced: string | null = getForcedFunction(body);
+    if (
+      forced !== null &&
+      body.tools.every(
+        (t) => t.type !== "function" || t.function.name !== forced
+      )
+    )
+      return `tool_choice refers to an unknown function "${forced}".`;
+  }
+  if (body.response_format?.type === "json_schema") {
+    const format = body.response_format.json_schema;
+    if (/^[a-zA-Z0-9_-]{1,64}$/.test(format.name) === false)
+      return `Invalid json_schema name "${format.name}".`;
+    if (format.strict === true && format.schema !== undefined)
+      return validateStrictSchema(format.schema, "response_format.schema");
+  }
+  return null;
+}
+
+/**
+ * Name of the function forced by the `tool_choice`, `null` when not forced.
+ */
+function getForcedFunction(
+  body: OpenAI.ChatCompletionCreateParams
+): string | null {
+  const choice: OpenAI.ChatCompletionToolChoiceOption | undefined =
+    body.tool_choice;
+  return typeof choice === "object" && choice.type === "function"
+    ? choice.function.name
+    : null;
+}
+
+/**
+ * Every object schema of the strict mode must list all properties in
+ * `required`, and must prohibit additional properties.
+ */
+function validateStrictSchema(schema: unknown, path: string): string | null {
+  if (Array.isArray(schema)) {
+    for (let i: number = 0; i < schema.length; ++i) {
+      const error: string | null = validateStrictSchema(
+        schema[i],
+        `${path}[${i}]`
+      );
+      if (error !== null) return error;
+    }
+    return null;
+  } else if (schema === null || typeof schema !== "object") return null;
+
+  const record: Record<string, unknown> = Object.fromEntries(
+    Object.entries(schema)
+  );
+  if (
+    record.type === "object" &&
+    record.properties !== null &&
+    typeof record.properties === "object"
+  ) {
+    if (record.additionalProperties !== false)
+      return `${path}: additionalProperties must be false in the strict mode.`;
+    const required: unknown[] = Array.isArray(record.required)
+      ? record.required
+      : [];
+    for (const key of Object.keys(record.properties))
+      if (required.includes(key) === false)
+        return `${path}: property "${key}" must be required in the strict mode.`;
+  }
+  for (const [key, value] of Object.entries(record)) {
+    const error: string | null = validateStrictSchema(value, `${path}.${key}`);
+    if (error !== null) return error;
+  }
+  return null;
+}
+
+function respond(
+  script: IMockScript,
+  body: OpenAI.ChatCompletionCreateParams,
+  response: http.ServerResponse
+): void {
+  const forced: string | null = getForcedFunction(body);
+  const tool: OpenAI.ChatCompletionTool | undefined =
+    body.tool_choice === "none"
+      ? undefined
+      : forced !== null
+      ? body.tools?.find(
+          (t) => t.type === "function" && t.function.name === forced
+        )
+      : body.tools?.[0];
+  const components: AutoBePrisma.IComponent[] = findComponents(body);
+  const attempt: number = countAttempts(body);
+
+  const message: OpenAI.ChatCompletionMessage =
+    body.response_format?.type === "json_schema" && components.length !== 0
+      ? {
+          role: "assistant",
+          content: compose({
+            component: components[0],
+            response: pick(script[components[0].namespace], attempt),
+          }),
+          refusal: null,
+        }
+      : tool !== undefined &&
+        tool.type === "function" &&
+        components.length !== 0
+      ? {
+          role: "assistant",
+          content: null,
+          refusal: null,
+          tool_calls: components.map((component) => ({
+            id: `call_${Math.random().toString(36).slice(2, 14)}`,
+            type: "function",
+            function: {
+              name: tool.function.name,
+              arguments: compose({
+                component,
+                response: pick(script[component.namespace], attempt),
+              }),
+            },
+          })),
+        }
+      : {
+          role: "assistant",
+          content: "Function calling has been completed.",
+          refusal: null,
+        };
+  const usage: OpenAI.CompletionUsage = {
+    prompt_tokens: Math.ceil(JSON.stringify(body.messages).length / 4),
+    completion_tokens: Math.ceil(JSON.stringify(message).length / 4),
+    total_tokens: 0,
+  };
+  usage.total_tokens = usage.prompt_tokens + usage.completion_tokens;
+
+  const id: string = `chatcmpl-mock-${Date.now()}`;
+  const created: number = Math.floor(Date.now() / 1_000);
+  const finish_reason = message.tool_calls ? "tool_calls" : "stop";
+  if (body.stream !== true)
+    return reply(response, 200, {
+      id,
+      object: "chat.completion",
+      created,
+      model: body.model,
+      choices: [
+        {
+          index: 0,
+          message,
+          finish_reason,
+          logprobs: null,
+        },
+      ],
+      usage,
+    } satisfies OpenAI.ChatCompletion);
+
+  const chunks: OpenAI.ChatCompletionChunk[] = [
+    {
+      id,
+      object: "chat.completion.chunk",
+      created,
+      model: body.model,
+      choices: [
+        {
+          index: 0,
+          delta: {
+            role: "assistant",
+            content: message.content,
+            tool_calls: message.tool_calls?.map((call, index) => ({
+              index,
+              ...call,
+            })),
+          },
+          finish_reason: null,
+        },
+      ],
+    },
+    {
+      id,
+      object: "chat.completion.chunk",
+      created,
+      model: body.model,
+      choices: [
+        {
+          index: 0,
+          delta: {},
+          finish_reason,
+        },
+      ],
+    },
+    ...(body.stream_options?.include_usage === true
+      ? [
+          {
+            id,
+            object: "chat.completion.chunk" as const,
+            created,
+            model: body.model,
+            choices: [],
+            usage,
+          },
+        ]
+      : []),
+  ];
+  response.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+  });
+  for (const c of chunks) response.write(`data: ${JSON.stringify(c)}\n\n`);
+  response.end("data: [DONE]\n\n");
+}
+
+/**
+ * Find the target component, or every component of the parallel function
+ * calling (one tool call per component, unless `parallel_tool_calls` is
+ * disabled).
+ */
+function findComponents(
+  body: OpenAI.ChatCompletionCreateParams
+): AutoBePrisma.IComponent[] {
+  for (const message of body.messages) {
+    if (typeof message.content !== "string") continue;
+    try {
+      const data: {
+        targetComponent?: AutoBePrisma.IComponent;
+        components?: AutoBePrisma.IComponent[];
+      } = JSON.parse(message.content);
+      if (typeof data?.targetComponent?.namespace === "string")
+        return [data.targetComponent];
+      else if (Array.isArray(data?.components))
+        return body.parallel_tool_calls === false
+          ? data.components.slice(0, 1)
+          : data.components;
+    } catch {}
+  }
+  return [];
+}
+
+/**
+ * Count the previous attempts of the conversation, by the feedback messages
+ * delivered as tool results, or as follow-up user messages of the Structured
+ * Outputs.
+ */
+function countAttempts(body: OpenAI.ChatCompletionCreateParams): number {
+  return body.response_format?.type === "json_schema"
+    ? Math.max(0, body.messages.filter((m) => m.role === "user").length - 1)
+    : body.messages.filter((m) => m.role === "tool").length;
+}
+
+function pick(
+  responses: IMockScript.IResponse[] | undefined,
+  attempt: number
+): IMockScript.IResponse | null {
+  if (responses === undefined || responses.length === 0) return null;
+  return responses[Math.min(attempt, responses.length - 1)];
+}
+
+function compose(props: {
+  component: AutoBePrisma.IComponent;
+  response: IMockScript.IResponse | null;
+}): string {
+  if (props.response?.type === "raw") return props.response.arguments;
+  else if (props.response?.type === "result")
+    return JSON.stringify(props.response.result);
+  const tables: string[] = props.response?.tables ?? props.component.tables;
+  const result: IFunctionCallingResult = {
+    tablesToCreate: tables,
+    validationReview: `VALIDATION PASSED: All required tables from \`targetComponent.tables\` included: ${tables.join(
+      ", "
+    )}.`,
+    confirmedTables: tables,
+    models: tables.map((name) => ({
+      name,
+      description: `Mock model of ${name}.`,
+      material: name.startsWith("mv_"),
+      primaryField: {
+        name: "id",
+        type: "uuid",
+        description: "Primary Key.",
+      },
+      foreignFields: [],
+      plainFields: [
+        {
+          name: "created_at",
+          type: "datetime",
+          description: "Creation time of the record.",
+          nullable: false,
+        },
+      ],
+      uniqueIndexes: [],
+      plainIndexes: [],
+      ginIndexes: [],
+    })),
+  };
+  return JSON.stringify(result);
+}
+
+function reply(
+  response: http.ServerResponse,
+  status: number,
+  data: object
+): void {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+  });
+  response.end(JSON.stringify(data));
+}
@@ -0,0 +1,133 @@
+import { ILlmSchema } from "@samchon/openapi";
+import OpenAI from "openai";
+import { IFunctionCallingResult } from "./IFunctionCallingResult";
+import { ITaskProps } from "./ITaskProps";
+import { parseArguments } from "./parseArguments";
+
+/**
+ * Generate models of a component through the Structured Outputs.
+ *
+ * Instead of the function calling, the same {@link IFunctionCallingResult} is
+ * requested as the message content by `response_format` of the strict
+ * `json_schema` type, whose schema is derived from the parameters of the
+ * function composed by `typia`.
+ */
+export const structuredOutputTask = async (
+  props: ITaskProps
+): Promise<IFunctionCallingResult> => {
+  const messages: OpenAI.ChatCompletionMessageParam[] = [
+    {
+      role: "system",
+      content: props.systemPrompt,
+    },
+    {
+      role: "assistant",
+      content: JSON.stringify({
+        requirementAnalysisReport: props.analyze,
+        targetComponent: props.targetComponent,
+        otherComponents: props.otherComponents,
+      }),
+    },
+    {
+      role: "user",
+      content: "Compose the function calling arguments as a JSON object.",
+    },
+  ];
+  const schema: Record<string, unknown> = toStrictSchema(
+    props.application.functions[0].parameters
+  );
+  while (true) {
+    const response = await props.api.chat.completions.create({
+      model: props.model,
+      messages,
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: props.application.functions[0].name,
+          description: props.application.functions[0].description,
+          schema,
+          strict: true,
+        },
+      },
+    });
+    const message: OpenAI.ChatCompletionMessage = response.choices[0].message;
+    if (message.refusal) throw new Error(`Refused: ${message.refusal}`);
+    else if (!message.content) throw new Error("No content has been returned.");
+    const obj: IFunctionCallingResult = dropNulls(
+      parseArguments(message.content) as IFunctionCallingResult
+    );
+
+    // CORRECTION MODE, DELIVER FEEDBACK AS A FOLLOW-UP MESSAGE
+    const feedback: string | null = props.review(obj);
+    if (feedback === null) return obj;
+    messages.push(
+      {
+        role: "assistant",
+        content: message.content,
+      },
+      {
+        role: "user",
+        content: feedback,
+      }
+    );
+  }
+};
+
+/**
+ * Convert a schema to follow the restrictions of the strict mode.
+ *
+ * The strict mode requires every property to be listed in `required`, so
+ * optional properties become nullable instead. As the result type has no
+ * nullable value, the `null`s are dropped again by {@link dropNulls}.
+ */
+function toStrictSchema(
+  schema: ILlmSchema<"chatgpt">
+): Record<string, unknown> {
+  const visit = (value: unknown): unknown =>
+    Array.isArray(value)
+      ? value.map(visit)
+      : isRecord(value)
+      ? visitObject(value)
+      : value;
+  const visitObject = (
+    value: Record<string, unknown>
+  ): Record<string, unknown> => {
+    const output: Record<string, unknown> = Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [
+        k,
+        (k === "properties" || k === "$defs") && isRecord(v)
+          ? Object.fromEntries(Object.entries(v).map(([p, s]) => [p, visit(s)]))
+          : visit(v),
+      ])
+    );
+    if (output.type === "object" && isRecord(output.properties)) {
+      const properties: Record<string, unknown> = output.properties;
+      const required: unknown[] = Array.isArray(output.required)
+        ? output.required
+        : [];
+      for (const [key, property] of Object.entries(properties))
+        if (required.includes(key) === false)
+          properties[key] = {
+            anyOf: [property, { type: "null" }],
+          };
+      output.required = Object.keys(properties);
+      output.additionalProperties = false;
+    }
+    return output;
+  };
+  return visitObject({ ...schema });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function dropNulls<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(dropNulls) as T;
+  else if (value === null || typeof value !== "object") return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([_, v]) => v !== null)
+      .map(([k, v]) => [k, dropNulls(v)])
+  ) as T;
+}
@@ -0,0 +1,108 @@
+import { IChainConsistency } from "./IChainConsistency";
+import { IChainSummary } from "./IChainSummary";
+import { IRunReport } from "./IRunReport";
+import { labelNamespace } from "./labelNamespace";
+import { printTable } from "./printTable";
+
+/**
+ * Aggregate consistencies of the four-step chain per runner and namespace.
+ *
+ * @param report Report of the run
+ * @returns Aggregation per runner and namespace
+ */
+export function summarizeChains(report: IRunReport): IChainSummary {
+  const runners: string[] = Array.from(
+    new Set(report.records.map((r) => r.runner))
+  );
+  const label = labelNamespace(report.records.map((r) => r.scenario));
+  return {
+    runners: runners.map((name) => {
+      const records: IRunReport.IRecord[] = report.records.filter(
+        (r) => r.runner === name
+      );
+      return {
+        name,
+        overall: aggregate(records),
+        namespaces: Array.from(new Set(records.map(label))).map(
+          (namespace) => ({
+            namespace,
+            ...aggregate(records.filter((r) => label(r) === namespace)),
+          })
+        ),
+      };
+    }),
+  };
+}
+
+/**
+ * Print the chain consistency summary as tables.
+ */
+export function printChains(summary: IChainSummary): void {
+  const percent = (value: number | null): string =>
+    value === null ? "-" : `${(value * 100).toFixed(1)}%`;
+  for (const runner of summary.runners) {
+    console.log(`\n## ${runner.name} (chain)\n`);
+    printTable(
+      [
+        "namespace",
+        "count",
+        "copied",
+        "confirmed",
+        "modeled",
+        "honest",
+        "consistent",
+        "score",
+        "success if consistent",
+        "success if not",
+      ],
+      [...runner.namespaces, { namespace: "(overall)", ...runner.overall }].map(
+        (s) => [
+          s.namespace,
+          String(s.count),
+          String(s.copied),
+          String(s.confirmed),
+          String(s.modeled),
+          String(s.honest),
+          String(s.consistent),
+          percent(s.count === 0 ? null : s.score),
+          percent(s.successRate.consistent),
+          percent(s.successRate.inconsistent),
+        ]
+      )
+    );
+  }
+}
+
+function aggregate(records: IRunReport.IRecord[]): IChainSummary.IAggregate {
+  const analyzed: Array<{
+    chain: IChainConsistency;
+    success: boolean;
+  }> = records
+    .filter((r) => r.chain !== null)
+    .map((r) => ({ chain: r.chain!, success: r.success }));
+  const count = (closure: (c: IChainConsistency) => boolean): number =>
+    analyzed.filter((a) => closure(a.chain)).length;
+  const rate = (consistent: boolean): number | null => {
+    const group = analyzed.filter((a) => (a.chain.score === 1) === consistent);
+    return group.length === 0
+      ? null
+      : group.filter((a) => a.success).length / group.length;
+  };
+  return {
+    count: analyzed.length,
+    copied: count((c) => c.copied),
+    confirmed: count((c) => c.confirmed),
+    modeled: count((c) => c.modeled),
+    honest: count((c) => c.honest),
+    consistent: count((c) => c.score === 1),
+    score:
+      analyzed.length === 0
+        ? 0
+        : analyzed.map((a) => a.chain.score).reduce((x, y) => x + y, 0) /
+          analyzed.length,
+    successRate: {
+      consistent: rate(true),
+      inconsistent: rate(false),
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import { IComponentResult } from "./IComponentResult";
+import { ICostSummary } from "./ICostSummary";
+import { IRunReport } from "./IRunReport";
+import { labelNamespace } from "./labelNamespace";
+import { printTable } from "./printTable";
+
+/**
+ * Aggregate token usages, latencies and costs per runner and namespace.
+ *
+ * @param report Report of the run
+ * @returns Aggregation per runner and namespace
+ */
+export function summarizeCosts(report: IRunReport): ICostSummary {
+  const runners: string[] = Array.from(
+    new Set(report.records.map((r) => r.runner))
+  );
+  const label = labelNamespace(report.records.map((r) => r.scenario));
+  return {
+    runners: runners.map((name) => {
+      const records: IRunReport.IRecord[] = report.records.filter(
+        (r) => r.runner === name
+      );
+      return {
+        name,
+        overall: aggregate(records),
+        namespaces: Array.from(new Set(records.map(label))).map(
+          (namespace) => ({
+            namespace,
+            ...aggregate(records.filter((r) => label(r) === namespace)),
+          })
+        ),
+      };
+    }),
+  };
+}
+
+/**
+ * Print the cost summary as tables.
+ */
+export function printCosts(summary: ICostSummary): void {
+  const integer = (value: number): string =>
+    Math.round(value).toLocaleString("en-US");
+  const dollars = (cost: IComponentResult.ICost | null): string =>
+    cost === null ? "-" : `$${cost.total.toFixed(4)}`;
+  for (const runner of summary.runners) {
+    console.log(`\n## ${runner.name} (costs)\n`);
+    printTable(
+      [
+        "namespace",
+        "count",
+        "calls",
+        "prompt",
+        "cached",
+        "completion",
+        "latency",
+        "prompt cost",
+        "cost",
+      ],
+      [...runner.namespaces, { namespace: "(overall)", ...runner.overall }].map(
+        (s) => [
+          s.namespace,
+          String(s.count),
+          String(s.calls),
+          integer(s.tokens.prompt),
+          integer(s.tokens.cached),
+          integer(s.tokens.completion),
+          `${integer(s.latency)}ms`,
+          s.cost === null
+            ? "-"
+            : `$${(s.cost.prompt + s.cost.cached).toFixed(4)}`,
+          dollars(s.cost),
+        ]
+      )
+    );
+  }
+}
+
+function aggregate(records: IRunReport.IRecord[]): ICostSummary.IAggregate {
+  const sum = (values: number[]): number => values.reduce((x, y) => x + y, 0);
+  const costs: IComponentResult.ICost[] = records
+    .map((r) => r.cost)
+    .filter((c): c is IComponentResult.ICost => c !== null);
+  return {
+    count: records.length,
+    calls: sum(records.map((r) => r.calls.length)),
+    latency:
+      records.length === 0
+        ? 0
+        : sum(records.map((r) => r.latency)) / records.length,
+    tokens: {
+      prompt: sum(records.map((r) => r.tokens.prompt)),
+      completion: sum(records.map((r) => r.tokens.completion)),
+      cached: sum(records.map((r) => r.tokens.cached)),
+      total: sum(records.map((r) => r.tokens.total)),
+    },
+    cost:
+      costs.length === 0
+        ? null
+        : {
+            prompt: sum(costs.map((c) => c.prompt)),
+            cached: sum(costs.map((c) => c.cached)),
+            completion: sum(costs.map((c) => c.completion)),
+            total: sum(costs.map((c) => c.total)),
+          },
+  };
+}
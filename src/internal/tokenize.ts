@@ -0,0 +1,29 @@
+/**
+ * Lowercase words in singular form, splitting camel case and snake case.
+ *
+ * Words shorter than three letters are dropped, and so are the stop words,
+ * compared before the singularization.
+ *
+ * @param text Text to split
+ * @param stopWords Words to exclude
+ * @returns Words of the text
+ */
+export function tokenize(
+  text: string,
+  stopWords: ReadonlySet<string> = new Set()
+): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 3 && stopWords.has(word) === false)
+    .map((word) =>
+      word.endsWith("ies")
+        ? `${word.slice(0, -3)}y`
+        : /(ss|us)$/.test(word)
+        ? word
+        : word.endsWith("s")
+        ? word.slice(0, -1)
+        : word
+    );
+}
@@ -0,0 +1,80 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IAnalyzeSection } from "./IAnalyzeSection";
+import { splitAnalyze } from "./splitAnalyze";
+import { tokenize } from "./tokenize";
+
+/**
+ * Trim the requirement analysis report to the sections relevant to the
+ * target components.
+ *
+ * Every markdown document is split into sections by its headings, and each
+ * section is scored by the keywords of the target components: words of their
+ * namespaces and table names, excluding the words shared by every component
+ * of the scenario (like the common prefix of the tables). Keywords found in a
+ * heading weigh triple. Sections of the highest scores are picked until the
+ * token budget is filled, and the picked sections are joined back in their
+ * original order, omitting the documents without any of them.
+ *
+ * Tokens are estimated as 4 characters per token.
+ *
+ * @param props Report, target components, all components and the budget
+ * @returns Trimmed report, dictionary of markdown documents
+ */
+export function trimAnalyze(props: {
+  analyze: Record<string, string>;
+  targetComponents: AutoBePrisma.IComponent[];
+  components: AutoBePrisma.IComponent[];
+  budget: number;
+}): Record<string, string> {
+  const vocabularies: Set<string>[] = props.components.map(
+    (c) => new Set(tokenize([c.namespace, ...c.tables].join(" ")))
+  );
+  const keywords: Set<string> = new Set(
+    tokenize(
+      props.targetComponents
+        .map((c) => [c.namespace, ...c.tables])
+        .flat()
+        .join(" ")
+    ).filter(
+      (word) =>
+        vocabularies.length < 2 || vocabularies.some((v) => !v.has(word))
+    )
+  );
+
+  // SCORE EACH SECTION
+  const count = (value: string): number =>
+    tokenize(value).filter((w) => keywords.has(w)).length;
+  const sections: ISection[] = splitAnalyze(props.analyze).map((s) => ({
+    ...s,
+    score: count(s.heading) * 2 + count(s.text),
+    tokens: Math.ceil(s.text.length / 4),
+  }));
+
+  // PICK THE HIGHEST SCORES WITHIN THE BUDGET
+  const picked: ISection[] = [];
+  let total: number = 0;
+  for (const s of sections
+    .filter((s) => s.score !== 0)
+    .sort((a, b) => b.score - a.score)) {
+    if (total + s.tokens > props.budget) continue;
+    picked.push(s);
+    total += s.tokens;
+  }
+  return Object.fromEntries(
+    Object.keys(props.analyze)
+      .map((document) => [
+        document,
+        picked
+          .filter((s) => s.document === document)
+          .sort((a, b) => a.index - b.index)
+          .map((s) => s.text.trim())
+          .join("\n\n"),
+      ])
+      .filter(([, content]) => content.length !== 0)
+  );
+}
+
+interface ISection extends IAnalyzeSection {
+  score: number;
+  tokens: number;
+}
@@ -0,0 +1,140 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IPrismaValidationError } from "./IPrismaValidationError";
+
+/**
+ * Validate consistency across the files of an assembled application.
+ *
+ * While {@link validatePrismaModels} inspects the models of each component in
+ * isolation, this function checks the rules which can be violated only by
+ * combining the files:
+ *
+ * - `targetModel` of every foreign key must be defined in some file
+ * - `targetModel` must not have the composite primary key
+ * - a table must not be defined twice across the files
+ * - an enum must not be declared twice across the files
+ * - every table must belong to one of the components
+ * - back-relation `mappingName`s must not collide on the same target model
+ *
+ * Target models of components absent from the application (not executed, or
+ * failed) can't be resolved, so references to them are not reported.
+ *
+ * @param props Assembled application and the whole components
+ * @returns Detected errors per filename, whose paths are relative to the file
+ */
+export function validatePrismaApplication(props: {
+  application: AutoBePrisma.IApplication;
+  components: AutoBePrisma.IComponent[];
+}): Record<string, IPrismaValidationError[]> {
+  const output: Record<string, IPrismaValidationError[]> = Object.fromEntries(
+    props.application.files.map((f) => [f.filename, []])
+  );
+  const owners: Map<string, AutoBePrisma.IComponent> = new Map(
+    props.components.map((c) => c.tables.map((t) => [t, c] as const)).flat()
+  );
+  const absent: Set<string> = new Set(
+    props.components
+      .filter((c) =>
+        props.application.files.every((f) => f.filename !== c.filename)
+      )
+      .map((c) => c.tables)
+      .flat()
+  );
+  const models: IModelLocation[] = props.application.files
+    .map((file) =>
+      file.models.map((model, i) => ({
+        file,
+        model,
+        path: `models[${i}]`,
+      }))
+    )
+    .flat();
+  const defined: Map<string, AutoBePrisma.IModel> = new Map(
+    models.map((m) => [m.model.name, m.model])
+  );
+
+  // DUPLICATED TABLES, THE ONE OUT OF ITS OWNER IS REPORTED
+  const groups: Map<string, IModelLocation[]> = new Map();
+  for (const m of models) {
+    const array: IModelLocation[] = groups.get(m.model.name) ?? [];
+    groups.set(m.model.name, array);
+    array.push(m);
+  }
+  for (const [name, array] of groups) {
+    if (array.length < 2) continue;
+    const kept: IModelLocation =
+      array.find((m) => owners.get(name)?.filename === m.file.filename) ??
+      array[0];
+    for (const m of array)
+      if (m !== kept)
+        output[m.file.filename].push({
+          kind: "duplicatedModel",
+          path: `${m.path}.name`,
+          message: `Table "${name}" of "${m.file.filename}" is already defined in "${kept.file.filename}".`,
+        });
+  }
+
+  for (const { file, model, path } of models) {
+    // ORPHAN TABLES
+    if (owners.has(model.name) === false)
+      output[file.filename].push({
+        kind: "orphanModel",
+        path: `${path}.name`,
+        message: `Table "${model.name}" of "${file.filename}" belongs to none of the components.`,
+      });
+
+    // UNRESOLVED FOREIGN KEYS
+    model.foreignFields.forEach((field, j) => {
+      const target: string = field.relation.targetModel;
+      if (defined.has(target) === false && absent.has(target) === false)
+        output[file.filename].push({
+          kind: "unresolvedTargetModel",
+          path: `${path}.foreignFields[${j}].relation.targetModel`,
+          message: `Target model "${target}" of "${model.name}.${field.name}" is defined in none of the files.`,
+        });
+      else if (defined.get(target)?.primaryField.type === "composite")
+        output[file.filename].push({
+          kind: "compositeTargetModel",
+          path: `${path}.foreignFields[${j}].relation.targetModel`,
+          message: `Target model "${target}" of "${model.name}.${field.name}" has the composite primary key, so that it can't be referenced.`,
+        });
+    });
+  }
+
+  // DUPLICATED ENUMS ACROSS THE FILES, THE FIRST DECLARATION IS KEPT
+  const enums: Map<string, string> = new Map();
+  for (const file of props.application.files)
+    (file.enums ?? []).forEach((e, i) => {
+      const previous: string | undefined = enums.get(e.name);
+      if (previous === undefined) enums.set(e.name, file.filename);
+      else if (previous !== file.filename)
+        output[file.filename].push({
+          kind: "duplicatedEnum",
+          path: `enums[${i}].name`,
+          message: `Enum "${e.name}" of "${file.filename}" is already declared in "${previous}".`,
+        });
+    });
+
+  // COLLISION OF MAPPING NAMES ON THE SAME TARGET MODEL
+  const mappings: Map<string, string> = new Map();
+  for (const { file, model, path } of models)
+    model.foreignFields.forEach((field, j) => {
+      if (field.relation.mappingName === undefined) return;
+      const key: string = `${field.relation.targetModel}/${field.relation.mappingName}`;
+      const previous: string | undefined = mappings.get(key);
+      if (previous === undefined)
+        mappings.set(key, `${model.name}.${field.name}`);
+      else
+        output[file.filename].push({
+          kind: "duplicatedMappingName",
+          path: `${path}.foreignFields[${j}].relation.mappingName`,
+          message: `Mapping name "${field.relation.mappingName}" of "${model.name}.${field.name}" collides with "${previous}" on the target model "${field.relation.targetModel}".`,
+        });
+    });
+  return output;
+}
+
+interface IModelLocation {
+  file: AutoBePrisma.IFile;
+  model: AutoBePrisma.IModel;
+  path: string;
+}
@@ -0,0 +1,256 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+import { IPrismaValidationError } from "./IPrismaValidationError";
+
+/**
+ * Validate semantics of the models generated for a component.
+ *
+ * Table selection (whether `models[].name` equals `targetComponent.tables`) is
+ * not checked here. This function inspects the contents of each model instead,
+ * reporting every violation with its JSON path.
+ *
+ * Enum typed fields must refer to the enums generated together, as each file
+ * declares the enums of its own models.
+ *
+ * @param props Generated models and enums, and the components they were
+ *   generated for
+ * @returns List of detected errors, empty if valid
+ */
+export function validatePrismaModels(props: {
+  models: AutoBePrisma.IModel[];
+  enums: AutoBePrisma.IEnum[];
+  targetComponent: AutoBePrisma.IComponent;
+  otherComponents: AutoBePrisma.IComponent[];
+}): IPrismaValidationError[] {
+  const known: Set<string> = new Set([
+    ...props.targetComponent.tables,
+    ...props.otherComponents.map((c) => c.tables).flat(),
+    ...props.models.map((m) => m.name),
+  ]);
+  const errors: IPrismaValidationError[] = [];
+
+  // ENUMS
+  const enums: Map<string, AutoBePrisma.IEnum> = new Map();
+  props.enums.forEach((e, i) => {
+    if (enums.has(e.name) || known.has(e.name))
+      errors.push({
+        kind: "duplicatedEnum",
+        path: `enums[${i}].name`,
+        message: `Enum "${e.name}" collides with another enum or model.`,
+      });
+    else enums.set(e.name, e);
+  });
+
+  props.models.forEach((model, i) =>
+    validateModel({
+      known,
+      enums,
+      model,
+      path: `models[${i}]`,
+      errors,
+    })
+  );
+  return errors;
+}
+
+function validateModel(props: {
+  known: Set<string>;
+  enums: Map<string, AutoBePrisma.IEnum>;
+  model: AutoBePrisma.IModel;
+  path: string;
+  errors: IPrismaValidationError[];
+}): void {
+  const { model, path, errors } = props;
+
+  // PRIMARY KEY
+  if (
+    model.primaryField.type !== "composite" &&
+    model.primaryField.name !== "id"
+  )
+    errors.push({
+      kind: "invalidPrimaryKeyName",
+      path: `${path}.primaryField.name`,
+      message: `Primary key of "${model.name}" must be named "id", but "${model.primaryField.name}".`,
+    });
+
+  // MATERIALIZED VIEW
+  if (model.material !== model.name.startsWith("mv_"))
+    errors.push({
+      kind: "materialNamingMismatch",
+      path: `${path}.material`,
+      message: model.material
+        ? `Materialized view "${model.name}" must have the "mv_" prefix.`
+        : `Model "${model.name}" has the "mv_" prefix, but is not a materialized view.`,
+    });
+
+  // FOREIGN KEYS
+  model.foreignFields.forEach((field, j) => {
+    if (props.known.has(field.relation.targetModel) === false)
+      errors.push({
+        kind: "unknownTargetModel",
+        path: `${path}.foreignFields[${j}].relation.targetModel`,
+        message: `Target model "${field.relation.targetModel}" of "${model.name}.${field.name}" exists in neither the target component nor the other components.`,
+      });
+  });
+
+  // DUPLICATED FIELDS
+  const fields: Map<string, IField> = new Map();
+  for (const field of [
+    ...(model.primaryField.type !== "composite"
+      ? [
+          {
+            path: `${path}.primaryField.name`,
+            name: model.primaryField.name,
+            type: model.primaryField.type,
+            foreign: false,
+            nullable: false,
+          },
+        ]
+      : []),
+    ...model.foreignFields.map((f, j) => ({
+      path: `${path}.foreignFields[${j}].name`,
+      name: f.name,
+      type: f.type,
+      foreign: true,
+      nullable: f.nullable,
+    })),
+    ...model.plainFields.map((f, j) => ({
+      path: `${path}.plainFields[${j}].name`,
+      name: f.name,
+      type: f.type,
+      foreign: false,
+      nullable: f.nullable,
+    })),
+  ]) {
+    if (fields.has(field.name))
+      errors.push({
+        kind: "duplicatedField",
+        path: field.path,
+        message: `Field "${field.name}" is duplicated in "${model.name}".`,
+      });
+    else fields.set(field.name, field);
+  }
+
+  // COMPOSITE PRIMARY KEY
+  if (model.primaryField.type === "composite")
+    model.primaryField.fieldNames.forEach((name, k) => {
+      const field: IField | undefined = fields.get(name);
+      if (field === undefined || field.nullable)
+        errors.push({
+          kind: "invalidCompositePrimaryKey",
+          path: `${path}.primaryField.fieldNames[${k}]`,
+          message:
+            field === undefined
+              ? `Primary key field "${name}" does not exist in "${model.name}".`
+              : `Primary key field "${model.name}.${name}" must not be nullable.`,
+        });
+    });
+
+  // ENUM TYPES AND DEFAULT VALUES
+  model.plainFields.forEach((field, j) => {
+    const enumeration: AutoBePrisma.IEnum | undefined =
+      field.enumName !== undefined
+        ? props.enums.get(field.enumName)
+        : undefined;
+    if (field.type === "enum" && enumeration === undefined)
+      errors.push({
+        kind: "invalidEnumReference",
+        path: `${path}.plainFields[${j}].enumName`,
+        message:
+          field.enumName === undefined
+            ? `Enum typed field "${model.name}.${field.name}" has no enumName.`
+            : `Enum "${field.enumName}" of "${model.name}.${field.name}" is not declared in the enums.`,
+      });
+    else if (field.type !== "enum" && field.enumName !== undefined)
+      errors.push({
+        kind: "invalidEnumReference",
+        path: `${path}.plainFields[${j}].enumName`,
+        message: `Field "${model.name}.${field.name}" has enumName, but its type is "${field.type}".`,
+      });
+    if (
+      field.default !== undefined &&
+      isValidDefault(field, enumeration) === false
+    )
+      errors.push({
+        kind: "invalidDefaultValue",
+        path: `${path}.plainFields[${j}].default`,
+        message: `Default value ${JSON.stringify(
+          field.default
+        )} does not match the "${field.type}" type of "${model.name}.${
+          field.name
+        }".`,
+      });
+  });
+
+  // INDEXES
+  const validateIndexFields = (accessor: string, fieldNames: string[]) =>
+    fieldNames.forEach((name, k) => {
+      if (fields.has(name) === false)
+        errors.push({
+          kind: "unknownIndexField",
+          path: `${path}.${accessor}.fieldNames[${k}]`,
+          message: `Indexed field "${name}" does not exist in "${model.name}".`,
+        });
+    });
+  model.uniqueIndexes.forEach((index, j) =>
+    validateIndexFields(`uniqueIndexes[${j}]`, index.fieldNames)
+  );
+  model.plainIndexes.forEach((index, j) => {
+    validateIndexFields(`plainIndexes[${j}]`, index.fieldNames);
+    if (
+      index.fieldNames.length === 1 &&
+      fields.get(index.fieldNames[0])?.foreign === true
+    )
+      errors.push({
+        kind: "singleForeignKeyIndex",
+        path: `${path}.plainIndexes[${j}].fieldNames`,
+        message: `Plain index on the single foreign key "${index.fieldNames[0]}" of "${model.name}" is not allowed.`,
+      });
+  });
+  model.ginIndexes.forEach((index, j) => {
+    const field: IField | undefined = fields.get(index.fieldName);
+    if (field === undefined)
+      errors.push({
+        kind: "unknownIndexField",
+        path: `${path}.ginIndexes[${j}].fieldName`,
+        message: `Indexed field "${index.fieldName}" does not exist in "${model.name}".`,
+      });
+    else if (field.type !== "string")
+      errors.push({
+        kind: "nonStringGinIndex",
+        path: `${path}.ginIndexes[${j}].fieldName`,
+        message: `GIN index is allowed only on string fields, but "${model.name}.${field.name}" is "${field.type}".`,
+      });
+  });
+}
+
+function isValidDefault(
+  field: AutoBePrisma.IPlainField,
+  enumeration: AutoBePrisma.IEnum | undefined
+): boolean {
+  const value: AutoBePrisma.IDefault = field.default!;
+  if (value.type === "now")
+    return field.type === "date" || field.type === "datetime";
+  else if (value.type === "uuid") return field.type === "uuid";
+  else if (field.type === "boolean") return typeof value.value === "boolean";
+  else if (field.type === "int") return Number.isInteger(value.value);
+  else if (field.type === "double") return typeof value.value === "number";
+  else if (field.type === "enum")
+    return (
+      typeof value.value === "string" &&
+      enumeration?.values.includes(value.value) === true
+    );
+  else if (field.type === "date" || field.type === "datetime")
+    return (
+      typeof value.value === "string" &&
+      isNaN(Date.parse(value.value)) === false
+    );
+  return typeof value.value === "string";
+}
+
+interface IField {
+  path: string;
+  name: string;
+  type: string;
+  foreign: boolean;
+  nullable: boolean;
+}
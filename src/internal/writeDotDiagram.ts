@@ -0,0 +1,140 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+
+/**
+ * Convert an {@link AutoBePrisma.IApplication} into a Graphviz DOT graph.
+ *
+ * Models are drawn as record nodes listing their fields, clustered by the
+ * namespace of their file. Every foreign key becomes an edge from the source
+ * model to its target model with crow's foot arrows: one (`tee`) or zero or
+ * one (`teeodot`) on the target side by `nullable`, and zero or one
+ * (`teeodot`) or many (`crowodot`) on the source side by `unique`.
+ * Materialized views are filled in grey.
+ *
+ * Target models not defined in the application, like tables of the other
+ * components when a single component is written alone, are drawn as dotted
+ * nodes in the cluster of their owner component.
+ *
+ * @param props Application to draw, and the components owning the tables
+ * @returns Content of the `.dot` file
+ */
+export function writeDotDiagram(props: {
+  application: AutoBePrisma.IApplication;
+  components: AutoBePrisma.IComponent[];
+}): string {
+  const models: AutoBePrisma.IModel[] = props.application.files
+    .map((f) => f.models)
+    .flat();
+  const defined: Set<string> = new Set(models.map((m) => m.name));
+  const external: Map<string, string[]> = new Map();
+  for (const model of models)
+    for (const field of model.foreignFields) {
+      const target: string = field.relation.targetModel;
+      if (defined.has(target)) continue;
+      const namespace: string =
+        props.components.find((c) => c.tables.includes(target))?.namespace ??
+        "(unknown)";
+      const array: string[] = external.get(namespace) ?? [];
+      external.set(namespace, array);
+      if (array.includes(target) === false) array.push(target);
+    }
+
+  let index: number = 0;
+  const cluster = (label: string, nodes: string[]): string[] => [
+    `  subgraph cluster_${index++} {`,
+    `    label=${quote(label)};`,
+    ...nodes.map((n) => `    ${n}`),
+    "  }",
+  ];
+  return [
+    "digraph {",
+    "  rankdir=LR;",
+    "  node [shape=record, fontsize=10];",
+    "  edge [dir=both, fontsize=9];",
+    ...props.application.files
+      .map((file) => cluster(file.namespace, file.models.map(writeNode)))
+      .flat(),
+    ...Array.from(external.entries())
+      .map(([namespace, tables]) =>
+        cluster(
+          `${namespace} (not generated)`,
+          tables.map((t) => `${quote(t)} [style=dotted];`)
+        )
+      )
+      .flat(),
+    ...models
+      .map((model) =>
+        model.foreignFields.map(
+          (field) =>
+            `  ${quote(model.name)} -> ${quote(
+              field.relation.targetModel
+            )} [label=${quote(field.relation.name)}, arrowhead=${
+              field.nullable ? "teeodot" : "tee"
+            }, arrowtail=${field.unique ? "teeodot" : "crowodot"}];`
+        )
+      )
+      .flat(),
+    "}",
+    "",
+  ].join("\n");
+}
+
+function writeNode(model: AutoBePrisma.IModel): string {
+  const primary: AutoBePrisma.IModel["primaryField"] = model.primaryField;
+  const composite: string[] =
+    primary.type === "composite" ? primary.fieldNames : [];
+  const write = (props: {
+    name: string;
+    type: string;
+    nullable: boolean;
+    keys: string[];
+  }): string => {
+    const keys: string[] = [
+      ...(composite.includes(props.name) ? ["PK"] : []),
+      ...props.keys,
+    ];
+    return `${props.name}${props.nullable ? "?" : ""}: ${props.type}${
+      keys.length !== 0 ? ` (${keys.join(", ")})` : ""
+    }`;
+  };
+  const fields: string[] = [
+    ...(primary.type !== "composite"
+      ? [
+          write({
+            name: primary.name,
+            type: "uuid",
+            nullable: false,
+            keys: ["PK"],
+          }),
+        ]
+      : []),
+    ...model.foreignFields.map((f) =>
+      write({
+        name: f.name,
+        type: "uuid",
+        nullable: f.nullable,
+        keys: ["FK", ...(f.unique ? ["UK"] : [])],
+      })
+    ),
+    ...model.plainFields.map((f) =>
+      write({
+        name: f.name,
+        type: f.type === "enum" ? f.enumName ?? "enum" : f.type,
+        nullable: f.nullable,
+        keys: [],
+      })
+    ),
+  ];
+  return `${quote(model.name)} [label=${quote(
+    `{${escape(model.name)}|${fields.map((f) => `${escape(f)}\\l`).join("")}}`
+  )}${model.material ? ", style=filled, fillcolor=lightgrey" : ""}];`;
+}
+
+/**
+ * Escape the characters having special meanings in the record labels.
+ */
+const escape = (str: string): string => str.replace(/([{}|<>])/g, "\\$1");
+
+/**
+ * Quote an identifier or label, keeping the escape sequences of the labels.
+ */
+const quote = (str: string): string => `"${str.replace(/"/g, '\\"')}"`;
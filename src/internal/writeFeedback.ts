@@ -0,0 +1,66 @@
+import { IInspection } from "./IInspection";
+
+/**
+ * Compose the feedback message delivered to the AI in the correction mode.
+ */
+export function writeFeedback(inspection: IInspection): string {
+  return [
+    "Your function calling has failed the validation. Fix the problems below, and call the function again with the complete and corrected arguments.",
+    "",
+    ...(inspection.missing.length !== 0
+      ? [
+          "## Missing Tables",
+          "",
+          "These tables from `targetComponent.tables` are not created. Create a model for each of them.",
+          "",
+          ...inspection.missing.map((t) => `- ${t}`),
+          "",
+        ]
+      : []),
+    ...(inspection.extra.length !== 0
+      ? [
+          "## Extra Tables",
+          "",
+          "These tables are not in `targetComponent.tables`. Remove them unless they are M:N junction tables of this domain, and never create tables of `otherComponents`.",
+          "",
+          ...inspection.extra.map((t) => `- ${t}`),
+          "",
+        ]
+      : []),
+    ...(inspection.typeErrors.length !== 0
+      ? [
+          "## Type Errors",
+          "",
+          "These values violate the type of the function parameters.",
+          "",
+          ...inspection.typeErrors.map(
+            (e) =>
+              `- \`${e.path}\`: expected \`${e.expected}\`, but ${
+                e.value === undefined
+                  ? "missing"
+                  : `\`${JSON.stringify(e.value).slice(0, 80)}\``
+              }`
+          ),
+          "",
+        ]
+      : []),
+    ...(inspection.errors.length !== 0
+      ? [
+          "## Invalid Models",
+          "",
+          ...inspection.errors.map((e) => `- \`${e.path}\`: ${e.message}`),
+          "",
+        ]
+      : []),
+    ...(inspection.lint.some((v) => v.severity === "error")
+      ? [
+          "## Convention Violations",
+          "",
+          ...inspection.lint
+            .filter((v) => v.severity === "error")
+            .map((v) => `- \`${v.path}\`: ${v.message} (${v.rule})`),
+          "",
+        ]
+      : []),
+  ].join("\n");
+}
@@ -0,0 +1,116 @@
+import { IRunReport } from "./IRunReport";
+import { labelNamespace } from "./labelNamespace";
+
+/**
+ * Write the report as JUnit XML.
+ *
+ * Each runner becomes a `<testsuite>`, and each component (of each trial)
+ * becomes a `<testcase>`, so that CI dashboards can show every namespace as a
+ * test case. Different table selections are reported as `<failure>`, and
+ * failed executions as `<error>`. Type errors of the function calling
+ * arguments are reported as `<failure>` too, and validation errors and lint
+ * violations are attached to the `<system-out>`. Runners rejecting their
+ * configuration become a `<testsuite>` of a `<skipped>` test case.
+ */
+export function writeJUnitReport(report: IRunReport): string {
+  const runners: string[] = Array.from(
+    new Set(report.records.map((r) => r.runner))
+  );
+  const seconds = (ms: number): string => (ms / 1_000).toFixed(3);
+  const label = labelNamespace(report.records.map((r) => r.scenario));
+  const suites: string[] = runners.map((runner) => {
+    const records: IRunReport.IRecord[] = report.records.filter(
+      (r) => r.runner === runner
+    );
+    const multiple: boolean = records.some((r) => r.trial !== 1);
+    return [
+      `  <testsuite name="${escape(runner)}" tests="${
+        records.length
+      }" failures="${
+        records.filter(
+          (r) =>
+            r.error === null &&
+            (r.success === false || r.typeErrors.length !== 0)
+        ).length
+      }" errors="${
+        records.filter((r) => r.error !== null).length
+      }" time="${seconds(
+        records.map((r) => r.latency).reduce((x, y) => x + y, 0)
+      )}" timestamp="${report.created_at}">`,
+      ...records.map((r) => {
+        const body: string[] = [];
+        if (r.error !== null)
+          body.push(
+            `      <error message="${escape(r.error)}">${escape(
+              r.error
+            )}</error>`
+          );
+        else if (r.success === false)
+          body.push(
+            `      <failure message="${escape(`Different tables`)}">${escape(
+              [
+                `expected: ${r.expected.join(", ")}`,
+                `actual: ${r.actual.join(", ")}`,
+                `missing: ${r.missing.join(", ")}`,
+                `extra: ${r.extra.join(", ")}`,
+              ].join("\n")
+            )}</failure>`
+          );
+        else if (r.typeErrors.length !== 0)
+          body.push(
+            `      <failure message="${escape(`Type errors`)}">${escape(
+              r.typeErrors.map((e) => `${e.path}: ${e.expected}`).join("\n")
+            )}</failure>`
+          );
+        if (r.errors.length + r.lint.length !== 0)
+          body.push(
+            `      <system-out>${escape(
+              [
+                ...r.errors.map((e) => `${e.path}: ${e.message}`),
+                ...r.lint.map(
+                  (v) => `${v.path}: ${v.message} (${v.severity} ${v.rule})`
+                ),
+              ].join("\n")
+            )}</system-out>`
+          );
+        const open: string = `    <testcase classname="${escape(
+          `${runner}.${r.model}`
+        )}" name="${escape(
+          multiple ? `${label(r)} #${r.trial}` : label(r)
+        )}" time="${seconds(r.latency)}"`;
+        return body.length === 0
+          ? `${open} />`
+          : [`${open}>`, ...body, "    </testcase>"].join("\n");
+      }),
+      "  </testsuite>",
+    ].join("\n");
+  });
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    "<testsuites>",
+    ...suites,
+    ...report.unsupported.map((u) =>
+      [
+        `  <testsuite name="${escape(
+          u.runner
+        )}" tests="1" failures="0" errors="0" skipped="1" timestamp="${
+          report.created_at
+        }">`,
+        `    <testcase classname="${escape(u.runner)}" name="(unsupported)">`,
+        `      <skipped message="${escape(u.reason)}" />`,
+        "    </testcase>",
+        "  </testsuite>",
+      ].join("\n")
+    ),
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
+
+const escape = (str: string): string =>
+  str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
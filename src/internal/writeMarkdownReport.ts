@@ -0,0 +1,236 @@
+import { IChainSummary } from "./IChainSummary";
+import { IComponentResult } from "./IComponentResult";
+import { ILintViolation } from "./ILintViolation";
+import { ICostSummary } from "./ICostSummary";
+import { IRunReport } from "./IRunReport";
+import { labelNamespace } from "./labelNamespace";
+import { summarizeChains } from "./summarizeChains";
+import { summarizeCosts } from "./summarizeCosts";
+
+/**
+ * Write the report as a Markdown summary.
+ *
+ * Composed of a table comparing runners side by side per namespace, tables
+ * of latency, tokens and costs per runner and namespace, consistency of the
+ * four-step chain per runner, violations of the lint rules, and the list of
+ * failures. Runners rejecting their configuration are listed below the
+ * success rates, and tool calls of the parallel function calling matching no
+ * component are listed with the failures.
+ */
+export function writeMarkdownReport(report: IRunReport): string {
+  const runners: string[] = Array.from(
+    new Set(report.records.map((r) => r.runner))
+  );
+  const label = labelNamespace(report.records.map((r) => r.scenario));
+  const namespaces: string[] = Array.from(new Set(report.records.map(label)));
+  const rate = (records: IRunReport.IRecord[]): string => {
+    if (records.length === 0) return "-";
+    const success: number = records.filter((r) => r.success).length;
+    return `${success} / ${records.length} (${(
+      (success / records.length) *
+      100
+    ).toFixed(0)}%)`;
+  };
+  const average = (values: number[]): string =>
+    values.length === 0
+      ? "-"
+      : Math.round(
+          values.reduce((x, y) => x + y, 0) / values.length
+        ).toLocaleString("en-US");
+  const dollars = (cost: IComponentResult.ICost | null): string =>
+    cost === null ? "-" : `$${cost.total.toFixed(4)}`;
+  const summary: ICostSummary = summarizeCosts(report);
+  const chains: IChainSummary = summarizeChains(report);
+  const ratio = (value: number, count: number): string =>
+    count === 0 ? "-" : `${((value / count) * 100).toFixed(0)}%`;
+  const percent = (value: number | null): string =>
+    value === null ? "-" : `${(value * 100).toFixed(0)}%`;
+  const rules: string[] = Array.from(
+    new Set(report.records.map((r) => r.lint.map((v) => v.rule)).flat())
+  );
+  const failures: IRunReport.IRecord[] = report.records.filter(
+    (r) =>
+      r.success === false || r.typeErrors.length !== 0 || r.errors.length !== 0
+  );
+  const unattributed: IRunReport.IRecord[] = report.records.filter(
+    (r, i, array) =>
+      r.parallel !== undefined &&
+      r.parallel.unattributed.length !== 0 &&
+      array.findIndex(
+        (x) =>
+          x.runner === r.runner &&
+          x.trial === r.trial &&
+          x.scenario === r.scenario
+      ) === i
+  );
+  return [
+    "# Function Calling Report",
+    "",
+    `> Generated at ${report.created_at}`,
+    "",
+    "## Success Rates",
+    "",
+    `Namespace | ${runners.join(" | ")}`,
+    `:---|${runners.map(() => ":---:").join("|")}`,
+    ...namespaces.map(
+      (ns) =>
+        `${ns} | ${runners
+          .map((runner) =>
+            rate(
+              report.records.filter(
+                (r) => r.runner === runner && label(r) === ns
+              )
+            )
+          )
+          .join(" | ")}`
+    ),
+    `**Overall** | ${runners
+      .map((runner) => rate(report.records.filter((r) => r.runner === runner)))
+      .join(" | ")}`,
+    "",
+    ...(report.unsupported.length !== 0
+      ? [
+          "Unsupported runners, not executed:",
+          "",
+          ...report.unsupported.map((u) => `- **${u.runner}**: ${u.reason}`),
+          "",
+        ]
+      : []),
+    "## Costs",
+    "",
+    "Runner | Model | Trials | Avg. Latency (ms) | Avg. Attempts | Avg. Prompt Tokens | Avg. Cached Tokens | Avg. Completion Tokens | Calls | Total Cost",
+    ":---|:---|---:|---:|---:|---:|---:|---:|---:|---:",
+    ...runners.map((runner) => {
+      const records: IRunReport.IRecord[] = report.records.filter(
+        (r) => r.runner === runner
+      );
+      return [
+        runner,
+        Array.from(new Set(records.map((r) => r.model))).join(", "),
+        new Set(records.map((r) => r.trial)).size,
+        average(records.map((r) => r.latency)),
+        (
+          records.map((r) => r.attempts).reduce((x, y) => x + y, 0) /
+          Math.max(1, records.length)
+        ).toFixed(2),
+        average(records.map((r) => r.tokens.prompt)),
+        average(records.map((r) => r.tokens.cached)),
+        average(records.map((r) => r.tokens.completion)),
+        records.map((r) => r.calls.length).reduce((x, y) => x + y, 0),
+        dollars(summary.runners.find((s) => s.name === runner)!.overall.cost),
+      ].join(" | ");
+    }),
+    "",
+    "### Costs per Namespace",
+    "",
+    `Namespace | ${runners.join(" | ")}`,
+    `:---|${runners.map(() => "---:").join("|")}`,
+    ...namespaces.map(
+      (ns) =>
+        `${ns} | ${summary.runners
+          .map((s) =>
+            dollars(s.namespaces.find((n) => n.namespace === ns)?.cost ?? null)
+          )
+          .join(" | ")}`
+    ),
+    "",
+    "## Chain Consistency",
+    "",
+    "Ratio of the results following each step of `tablesToCreate` → `validationReview` → `confirmedTables` → `models`, and the success rates split by whether every step is followed.",
+    "",
+    "Runner | Copied | Confirmed | Modeled | Honest | Consistent | Avg. Score | Success if Consistent | Success if Not",
+    ":---|---:|---:|---:|---:|---:|---:|---:|---:",
+    ...chains.runners.map(({ name, overall: s }) =>
+      [
+        name,
+        ratio(s.copied, s.count),
+        ratio(s.confirmed, s.count),
+        ratio(s.modeled, s.count),
+        ratio(s.honest, s.count),
+        ratio(s.consistent, s.count),
+        s.count === 0 ? "-" : s.score.toFixed(2),
+        percent(s.successRate.consistent),
+        percent(s.successRate.inconsistent),
+      ].join(" | ")
+    ),
+    "",
+    "## Lint",
+    "",
+    ...(rules.length === 0
+      ? ["No lint rule is violated."]
+      : [
+          `Rule | Severity | ${runners.join(" | ")}`,
+          `:---|:---|${runners.map(() => "---:").join("|")}`,
+          ...rules.map((rule) => {
+            const violations: ILintViolation[] = report.records
+              .map((r) => r.lint)
+              .flat()
+              .filter((v) => v.rule === rule);
+            return [
+              rule,
+              Array.from(new Set(violations.map((v) => v.severity))).join(", "),
+              ...runners.map((runner) =>
+                report.records
+                  .filter((r) => r.runner === runner)
+                  .map((r) => r.lint.filter((v) => v.rule === rule).length)
+                  .reduce((x, y) => x + y, 0)
+              ),
+            ].join(" | ");
+          }),
+        ]),
+    "",
+    "## Traceability",
+    "",
+    "Descriptions of the models and fields tracing no requirement of the analysis report.",
+    "",
+    "Runner | Untraced | Components with Untraced",
+    ":---|---:|---:",
+    ...runners.map((runner) => {
+      const records: IRunReport.IRecord[] = report.records.filter(
+        (r) => r.runner === runner
+      );
+      return [
+        runner,
+        records.map((r) => r.untraced.length).reduce((x, y) => x + y, 0),
+        ratio(
+          records.filter((r) => r.untraced.length !== 0).length,
+          records.length
+        ),
+      ].join(" | ");
+    }),
+    "",
+    "## Failures",
+    "",
+    ...(failures.length + unattributed.length === 0
+      ? ["Nothing failed."]
+      : failures.map((r) =>
+          [
+            `- **${r.runner}** \`${label(r)}\` (trial #${r.trial})`,
+            ...(r.error !== null ? [`  - error: ${r.error}`] : []),
+            ...(r.missing.length !== 0
+              ? [`  - missing: ${r.missing.join(", ")}`]
+              : []),
+            ...(r.extra.length !== 0
+              ? [`  - extra: ${r.extra.join(", ")}`]
+              : []),
+            ...r.typeErrors.map(
+              (e) => `  - \`${e.path}\`: expected \`${e.expected}\``
+            ),
+            ...r.errors.map((e) => `  - \`${e.path}\`: ${e.message}`),
+          ].join("\n")
+        )),
+    ...unattributed.map((r) =>
+      [
+        `- **${r.runner}** \`${r.scenario}\` (trial #${r.trial})`,
+        ...r.parallel!.unattributed.map((u) =>
+          u.error !== null
+            ? `  - unattributed call #${u.index}: ${u.error}`
+            : `  - unattributed call #${u.index}: ${
+                u.tables.join(", ") || "no table"
+              }`
+        ),
+      ].join("\n")
+    ),
+    "",
+  ].join("\n");
+}
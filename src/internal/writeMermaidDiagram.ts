@@ -0,0 +1,98 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+
+/**
+ * Convert an {@link AutoBePrisma.IApplication} into a Mermaid `erDiagram`.
+ *
+ * Models are grouped by the namespace of their file, each group headed by a
+ * comment as the `erDiagram` has no subgraph. Every foreign key becomes an
+ * edge toward its target model: exactly one (`||`) or zero or one (`|o`) on
+ * the target side by `nullable`, and zero or one (`o|`) or many (`o{`) on the
+ * source side by `unique`. Materialized views are marked in their labels.
+ *
+ * Target models not defined in the application, like tables of the other
+ * components when a single component is written alone, are drawn as empty
+ * entities under the namespace of their owner component.
+ *
+ * @param props Application to draw, and the components owning the tables
+ * @returns Content of the `.mmd` file
+ */
+export function writeMermaidDiagram(props: {
+  application: AutoBePrisma.IApplication;
+  components: AutoBePrisma.IComponent[];
+}): string {
+  const models: AutoBePrisma.IModel[] = props.application.files
+    .map((f) => f.models)
+    .flat();
+  const defined: Set<string> = new Set(models.map((m) => m.name));
+  const external: Map<string, string[]> = new Map();
+  for (const model of models)
+    for (const field of model.foreignFields) {
+      const target: string = field.relation.targetModel;
+      if (defined.has(target)) continue;
+      const namespace: string =
+        props.components.find((c) => c.tables.includes(target))?.namespace ??
+        "(unknown)";
+      const array: string[] = external.get(namespace) ?? [];
+      external.set(namespace, array);
+      if (array.includes(target) === false) array.push(target);
+    }
+
+  return [
+    "erDiagram",
+    ...props.application.files
+      .map((file) => [
+        `  %% ${file.namespace}`,
+        ...file.models.map(writeEntity).flat(),
+      ])
+      .flat(),
+    ...Array.from(external.entries())
+      .map(([namespace, tables]) => [
+        `  %% ${namespace} (not generated)`,
+        ...tables.map((t) => `  ${t}["${t} (not generated)"]`),
+      ])
+      .flat(),
+    ...models
+      .map((model) =>
+        model.foreignFields.map(
+          (field) =>
+            `  ${field.relation.targetModel} ${field.nullable ? "|o" : "||"}--${
+              field.unique ? "o|" : "o{"
+            } ${model.name} : "${field.relation.name}"`
+        )
+      )
+      .flat(),
+    "",
+  ].join("\n");
+}
+
+function writeEntity(model: AutoBePrisma.IModel): string[] {
+  const primary: AutoBePrisma.IModel["primaryField"] = model.primaryField;
+  const composite: string[] =
+    primary.type === "composite" ? primary.fieldNames : [];
+  const keys = (name: string, ...others: string[]): string => {
+    const list: string[] = [
+      ...(composite.includes(name) ? ["PK"] : []),
+      ...others,
+    ];
+    return list.length !== 0 ? ` ${list.join(", ")}` : "";
+  };
+  return [
+    model.material
+      ? `  ${model.name}["${model.name} (materialized view)"] {`
+      : `  ${model.name} {`,
+    ...(primary.type !== "composite" ? [`    uuid ${primary.name} PK`] : []),
+    ...model.foreignFields.map(
+      (f) =>
+        `    uuid ${f.name}${keys(f.name, "FK", ...(f.unique ? ["UK"] : []))}${
+          f.nullable ? ` "nullable"` : ""
+        }`
+    ),
+    ...model.plainFields.map(
+      (f) =>
+        `    ${f.type === "enum" ? f.enumName ?? "enum" : f.type} ${
+          f.name
+        }${keys(f.name)}${f.nullable ? ` "nullable"` : ""}`
+    ),
+    "  }",
+  ];
+}
@@ -0,0 +1,305 @@
+import { AutoBePrisma } from "./AutoBePrisma";
+
+/**
+ * Convert an {@link AutoBePrisma.IApplication} into Prisma schema files.
+ *
+ * Every {@link AutoBePrisma.IFile} becomes a `.prisma` file named after its
+ * `filename`, its enums written before the models, and a `main.prisma` file
+ * containing the `datasource` and `generator` blocks is added so that the
+ * directory can be consumed as a Prisma multi-file schema.
+ *
+ * Back-relation fields are generated on the target models of every foreign
+ * key, as long as the target model exists somewhere in the application. When
+ * the target lives in another application (e.g. a single component written
+ * alone), only the forward relation is written.
+ *
+ * @param application Application to convert
+ * @returns Dictionary of file contents, keyed by filename
+ */
+export function writePrismaApplication(
+  application: AutoBePrisma.IApplication
+): Record<string, string> {
+  const models: Map<string, AutoBePrisma.IModel> = new Map(
+    application.files
+      .map((f) => f.models)
+      .flat()
+      .map((m) => [m.name, m])
+  );
+  const oppositeDict: Map<string, IOppositeRelation[]> =
+    collectOppositeRelations(models);
+
+  const output: Record<string, string> = {
+    "main.prisma": MAIN,
+  };
+  for (const file of application.files)
+    output[file.filename] = [
+      ...(file.enums ?? []).map((e) =>
+        writeEnum({
+          namespace: file.namespace,
+          enumeration: e,
+        })
+      ),
+      ...file.models.map((model) =>
+        writeModel({
+          namespace: file.namespace,
+          model,
+          opposites: oppositeDict.get(model.name) ?? [],
+          models,
+        })
+      ),
+    ]
+      .join("\n\n")
+      .concat("\n");
+  return output;
+}
+
+interface IOppositeRelation {
+  name: string;
+  relationName: string | null;
+  sourceModel: string;
+  unique: boolean;
+}
+
+function collectOppositeRelations(
+  models: Map<string, AutoBePrisma.IModel>
+): Map<string, IOppositeRelation[]> {
+  const dict: Map<string, IOppositeRelation[]> = new Map();
+  for (const model of models.values())
+    for (const field of model.foreignFields) {
+      const target: AutoBePrisma.IModel | undefined = models.get(
+        field.relation.targetModel
+      );
+      if (target === undefined) continue;
+
+      const array: IOppositeRelation[] = dict.get(target.name) ?? [];
+      dict.set(target.name, array);
+
+      // AVOID COLLISION WITH FIELDS ALREADY DEFINED IN THE TARGET
+      const occupied: Set<string> = new Set([
+        ...(target.primaryField.type !== "composite"
+          ? [target.primaryField.name]
+          : []),
+        ...target.foreignFields.map((f) => f.name),
+        ...target.foreignFields.map((f) => f.relation.name),
+        ...target.plainFields.map((f) => f.name),
+        ...array.map((o) => o.name),
+      ]);
+      let name: string = model.name;
+      if (occupied.has(name)) name = `${model.name}_of_${field.relation.name}`;
+      for (let i: number = 2; occupied.has(name); ++i)
+        name = `${model.name}_of_${field.relation.name}_${i}`;
+
+      array.push({
+        name,
+        relationName: getRelationName({
+          model,
+          field,
+          models,
+        }),
+        sourceModel: model.name,
+        unique: field.unique,
+      });
+    }
+  return dict;
+}
+
+/**
+ * Prisma requires explicit relation names when two models are connected more
+ * than once, or when a model refers itself.
+ */
+function getRelationName(props: {
+  model: AutoBePrisma.IModel;
+  field: AutoBePrisma.IForeignField;
+  models: Map<string, AutoBePrisma.IModel>;
+}): string | null {
+  if (props.field.relation.mappingName !== undefined)
+    return props.field.relation.mappingName;
+
+  const target: string = props.field.relation.targetModel;
+  if (target === props.model.name)
+    return `${props.model.name}_${props.field.relation.name}`;
+
+  const forward: number = props.model.foreignFields.filter(
+    (f) => f.relation.targetModel === target
+  ).length;
+  const backward: number =
+    props.models
+      .get(target)
+      ?.foreignFields.filter((f) => f.relation.targetModel === props.model.name)
+      .length ?? 0;
+  return forward + backward > 1
+    ? `${props.model.name}_${props.field.relation.name}`
+    : null;
+}
+
+function writeModel(props: {
+  namespace: string;
+  model: AutoBePrisma.IModel;
+  opposites: IOppositeRelation[];
+  models: Map<string, AutoBePrisma.IModel>;
+}): string {
+  const { model } = props;
+  const primary: AutoBePrisma.IModel["primaryField"] = model.primaryField;
+  const lines: string[] = [
+    // PRIMARY KEY
+    ...(primary.type !== "composite"
+      ? [
+          ...writeComment(primary.description, 2),
+          `  ${primary.name} String @id @db.Uuid`,
+          "",
+        ]
+      : []),
+
+    // FOREIGN KEYS
+    ...model.foreignFields
+      .map((field) => [
+        ...writeComment(field.description, 2),
+        `  ${field.name} String${field.nullable ? "?" : ""} @db.Uuid${
+          field.unique ? " @unique" : ""
+        }`,
+      ])
+      .flat(),
+    ...(model.foreignFields.length !== 0 ? [""] : []),
+
+    // PLAIN FIELDS
+    ...model.plainFields
+      .map((field) => [
+        ...writeComment(field.description, 2),
+        `  ${field.name} ${
+          field.type === "enum" ? field.enumName : PLAIN_TYPES[field.type]
+        }${field.nullable ? "?" : ""}${PLAIN_ATTRIBUTES[field.type]}${
+          field.default !== undefined ? ` @default(${writeDefault(field)})` : ""
+        }`,
+      ])
+      .flat(),
+    ...(model.plainFields.length !== 0 ? [""] : []),
+
+    // RELATIONS
+    ...model.foreignFields.map((field) => {
+      const relationName: string | null = getRelationName({
+        model,
+        field,
+        models: props.models,
+      });
+      return `  ${field.relation.name} ${field.relation.targetModel}${
+        field.nullable ? "?" : ""
+      } @relation(${
+        relationName !== null ? `"${relationName}", ` : ""
+      }fields: [${field.name}], references: [id], onDelete: Cascade)`;
+    }),
+    ...props.opposites.map(
+      (o) =>
+        `  ${o.name} ${o.sourceModel}${o.unique ? "?" : "[]"}${
+          o.relationName !== null ? ` @relation("${o.relationName}")` : ""
+        }`
+    ),
+    ...(model.foreignFields.length + props.opposites.length !== 0 ? [""] : []),
+
+    // INDEXES
+    ...(primary.type === "composite"
+      ? [
+          ...writeComment(primary.description, 2),
+          `  @@id([${primary.fieldNames.join(", ")}])`,
+        ]
+      : []),
+    ...model.uniqueIndexes.map(
+      (index) => `  @@unique([${index.fieldNames.join(", ")}])`
+    ),
+    ...model.plainIndexes.map(
+      (index) => `  @@index([${index.fieldNames.join(", ")}])`
+    ),
+    ...model.ginIndexes.map(
+      (index) =>
+        `  @@index([${index.fieldName}(ops: raw("gin_trgm_ops"))], type: Gin)`
+    ),
+  ];
+  while (lines.length !== 0 && lines[lines.length - 1] === "") lines.pop();
+
+  return [
+    ...writeComment(
+      [
+        model.description,
+        "",
+        `@namespace ${props.namespace}`,
+        ...(model.material ? ["@hidden"] : []),
+      ].join("\n"),
+      0
+    ),
+    `model ${model.name} {`,
+    ...lines,
+    "}",
+  ].join("\n");
+}
+
+function writeEnum(props: {
+  namespace: string;
+  enumeration: AutoBePrisma.IEnum;
+}): string {
+  return [
+    ...writeComment(
+      [props.enumeration.description, "", `@namespace ${props.namespace}`].join(
+        "\n"
+      ),
+      0
+    ),
+    `enum ${props.enumeration.name} {`,
+    ...props.enumeration.values.map((v) => `  ${v}`),
+    "}",
+  ].join("\n");
+}
+
+/**
+ * Enum values are written as bare identifiers, and other strings are quoted.
+ */
+function writeDefault(field: AutoBePrisma.IPlainField): string {
+  const value: AutoBePrisma.IDefault = field.default!;
+  if (value.type === "now") return "now()";
+  else if (value.type === "uuid") return "uuid()";
+  return typeof value.value === "string" && field.type !== "enum"
+    ? JSON.stringify(value.value)
+    : String(value.value);
+}
+
+function writeComment(content: string, indent: number): string[] {
+  const prefix: string = " ".repeat(indent);
+  return content
+    .split("\r\n")
+    .join("\n")
+    .split("\n")
+    .map((line) => `${prefix}///${line.length ? ` ${line}` : ""}`);
+}
+
+const PLAIN_TYPES: Record<AutoBePrisma.IPlainField["type"], string> = {
+  boolean: "Boolean",
+  int: "Int",
+  double: "Float",
+  string: "String",
+  uri: "String",
+  uuid: "String",
+  date: "DateTime",
+  datetime: "DateTime",
+  enum: "",
+};
+const PLAIN_ATTRIBUTES: Record<AutoBePrisma.IPlainField["type"], string> = {
+  boolean: "",
+  int: "",
+  double: "",
+  string: "",
+  uri: " @db.VarChar(80000)",
+  uuid: " @db.Uuid",
+  date: " @db.Date",
+  datetime: " @db.Timestamptz",
+  enum: "",
+};
+
+const MAIN: string = `generator client {
+  provider        = "prisma-client-js"
+  previewFeatures = ["postgresqlExtensions", "prismaSchemaFolder"]
+}
+
+datasource db {
+  provider   = "postgresql"
+  url        = env("DATABASE_URL")
+  extensions = [pg_trgm]
+}
+`;
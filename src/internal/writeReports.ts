@@ -0,0 +1,92 @@
+import fs from "fs";
+import path from "path";
+
+import { IBenchmarkResult } from "./IBenchmarkResult";
+import { IComponentResult } from "./IComponentResult";
+import { IRunReport } from "./IRunReport";
+import { REPORT_WRITERS } from "./reportWriters";
+
+/**
+ * Compose a report from the results of executions.
+ *
+ * @param executions Results of each runner and trial
+ * @param unsupported Runners rejecting their configuration
+ * @returns Report of the run
+ */
+export function createRunReport(
+  executions: Array<{
+    runner: string;
+    trial: number;
+    results: IComponentResult[];
+  }>,
+  unsupported: IRunReport.IUnsupported[] = []
+): IRunReport {
+  return {
+    created_at: new Date().toISOString(),
+    records: executions
+      .map((e) =>
+        e.results.map((r) => ({
+          runner: e.runner,
+          trial: e.trial,
+          ...r,
+        }))
+      )
+      .flat(),
+    unsupported,
+  };
+}
+
+/**
+ * Compose a report from the benchmark result.
+ *
+ * @param result Benchmark result
+ * @returns Report of the run
+ */
+export function createBenchmarkReport(result: IBenchmarkResult): IRunReport {
+  return createRunReport(
+    result.runners
+      .map((runner) =>
+        runner.executions.map((results, i) => ({
+          runner: runner.name,
+          trial: i + 1,
+          results,
+        }))
+      )
+      .flat(),
+    result.runners
+      .filter((runner) => runner.unsupported !== null)
+      .map((runner) => ({
+        runner: runner.name,
+        reason: runner.unsupported!,
+      }))
+  );
+}
+
+/**
+ * Write the report in every requested format, as `{directory}/report.{ext}`.
+ *
+ * @param props Report, formats and output directory
+ * @returns Locations of the written files
+ */
+export async function writeReports(props: {
+  report: IRunReport;
+  formats: string[];
+  directory: string;
+}): Promise<string[]> {
+  for (const format of props.formats)
+    if (REPORT_WRITERS[format] === undefined)
+      throw new Error(`Unknown report format "${format}".`);
+  await fs.promises.mkdir(props.directory, { recursive: true });
+
+  const locations: string[] = [];
+  for (const format of props.formats) {
+    const writer = REPORT_WRITERS[format];
+    const location: string = path.join(
+      props.directory,
+      `report.${writer.extension}`
+    );
+    await fs.promises.writeFile(location, writer.write(props.report), "utf8");
+    locations.push(location);
+  }
+  return locations;
+}
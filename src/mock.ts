@@ -0,0 +1,17 @@
+import fs from "fs";
+
+import { IMockScript } from "./internal/IMockScript";
+import { startMockServer } from "./internal/startMockServer";
+
+const main = async (): Promise<void> => {
+  const port: number = Number(process.env.MOCK_PORT ?? 37_001);
+  const script: IMockScript = process.argv[2]
+    ? JSON.parse(await fs.promises.readFile(process.argv[2], "utf8"))
+    : {};
+  await startMockServer({ port, script });
+  console.log(`Mock OpenAI server is listening on http://localhost:${port}/v1`);
+};
+main().catch((exp) => {
+  console.error(exp);
+  process.exit(-1);
+});
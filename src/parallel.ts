@@ -0,0 +1,3 @@
+import { executeParallel } from "./internal/executeParallel";
+
+executeParallel("openai-parallel").catch(console.error);
@@ -0,0 +1,4 @@
+import { execute } from "./internal/execute";
+import { structuredOutputTask } from "./internal/structuredOutputTask";
+
+execute("structured-output", structuredOutputTask).catch(console.error);